@@ -1,14 +1,59 @@
 import * as vscode from 'vscode';
 import * as cp from 'child_process';
-import * as xml2js from 'xml2js';
 import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 
-import { documentationLinkMap, getPremiumCertLink } from './util/documentation';
-import { runCommand } from './util/scripts';
+import { documentationLinkMap, getAddonLink, getPremiumCertLink } from './util/documentation';
+import { runCommand, ScriptOutputCache } from './util/scripts';
+import { tokenizeArguments, expandScriptArguments } from './util/arguments';
 import { looksLikePath, resolvePath, findWorkspaceRoot } from './util/path';
-import { DiagnosticMetadataStore, diagnosticsUnion } from './util/diagnostics';
+import { DiagnosticMetadataStore, diagnosticsUnion, FilteredDiagnosticCollection } from './util/diagnostics';
+import {
+    cppcheckSeverities,
+    getEditorSeverity,
+    getEnabledSeverities,
+    inconclusiveMessagePrefix,
+    isInconclusiveShown,
+    toCppcheckSeverity,
+} from './util/severity';
 import { CodeActionProvider } from './util/codeActions';
-import { ProjectFileStore, writeSuppressionToProjectFile } from './util/files';
+import { DiagnosticHoverProvider } from './util/hover';
+import { configureAddons, getAddonArguments, getAddonPython, MisraRuleTexts } from './util/addons';
+import { getUpdateTarget } from './util/configuration';
+import { AnalysisProfile, describeProfile, findProfile, getActiveProfile, getProfiles } from './util/profiles';
+import { getTraceSteps, TraceCodeLensProvider, TraceNavigator } from './util/trace';
+import {
+    SuppressionTargetStore,
+    SuppressionTarget,
+    describeSuppressionTarget,
+    findSuppressionTarget,
+    supportsSymbolName,
+    writeSuppression
+} from './util/files';
+import { CppcheckXmlStreamParser, CppcheckXmlError } from './util/xmlStream';
+import { CompileCommandsLocator } from './util/project';
+import { CppcheckLogger, showErrorWithLog } from './util/logging';
+import { AnalysisScheduler, SchedulerState } from './util/scheduler';
+import { AnalysisResultCache } from './util/resultCache';
+import { FindingsGrouping, FindingsTreeProvider, FindingItem } from './util/findingsView';
+import { collectReportFindings, createReport, ReportFormat } from './util/report';
+import { BaselineEntry, BaselineStore, createBaselineEntry, defaultBaselineFileName, getLineOccurrence } from './util/baseline';
+import { AnalysisScope, GitChanges } from './util/git';
+import { HiddenWarningStore } from './util/hiddenWarnings';
+import {
+    appliesToFile,
+    deleteSuppression,
+    editSuppression,
+    findConfiguredSuppressions,
+    findUnmatchedInlineSuppression,
+    getUnmatchedSuppressionId,
+    removeInlineSuppressionIds,
+    SuppressionEntry,
+    UnmatchedSuppressionStore
+} from './util/suppressions';
+import { SuppressionItem, SuppressionsTreeProvider } from './util/suppressionsView';
 
 // To keep track of document changes we save hashed versions of their content to this record
 let documentHashMemory : Record<string, string> = {};
@@ -16,20 +61,48 @@ let documentHashMemory : Record<string, string> = {};
 let fileRelationMap: Record<string, Set<string>> = {};
 // Some diagnostics have symbol names associated with them, which we keep track of in diagnosticMetadataStore
 const diagnosticMetadataStore = new DiagnosticMetadataStore();
-// The ProjectFileStore is usd to keep track of the users project file through different context
-const projectFileStore = new ProjectFileStore();
+// Suppressions files and .cppcheck project files of the workspace folders, used to describe suppression code actions
+const suppressionTargetStore = new SuppressionTargetStore();
+// Created by the suppression code actions when neither a suppressions file nor a .cppcheck project file is configured
+const defaultSuppressionsFileName = 'cppcheck-suppressions.txt';
+// Output of argument scripts can be kept between analyses, see cppcheck-official.scriptCacheFiles
+const scriptOutputCache = new ScriptOutputCache();
 
 let previewAnalysisTimer: NodeJS.Timeout | undefined;
 let previewedDocument: vscode.TextDocument | undefined;
+// In 'type' mode analysis of unsaved buffers is debounced per document
+const bufferAnalysisTimers = new Map<string, NodeJS.Timeout>();
+const bufferAnalysisDelay = 1000;
 let cppcheckProgressIndicator: vscode.StatusBarItem;
 let severityOption: vscode.StatusBarItem;
-let checksRunning = false;
-
-enum SeverityNumber {
-    Info = 0,
-    Warning = 1,
-    Error = 2
-}
+let inconclusiveOption: vscode.StatusBarItem;
+let profileOption: vscode.StatusBarItem;
+let analysisScheduler: AnalysisScheduler;
+let logger: CppcheckLogger;
+let compileCommandsLocator: CompileCommandsLocator;
+// Results of analyses are kept across sessions, keyed by document content, cppcheck version and arguments
+let resultCache: AnalysisResultCache;
+// Findings in the baseline configured with cppcheck-official.baseline are not shown
+let baselineStore: BaselineStore;
+// Warnings and warning types hidden by the user stay hidden across analyses and sessions
+let hiddenWarningStore: HiddenWarningStore;
+// Texts of MISRA rules shown in the messages of MISRA findings, see cppcheck-official.misraRuleTexts
+let misraRuleTexts: MisraRuleTexts;
+// Suppressions reported as unmatched by the latest analyses are flagged in the suppressions view
+let unmatchedSuppressionStore: UnmatchedSuppressionStore;
+// Version reported by each cppcheck executable, looked up once per session
+const cppcheckVersions = new Map<string, string>();
+// Python interpreters found to run addons with, and those reported missing, looked up once per session
+const availablePythons = new Set<string>();
+const missingPythonsReported = new Set<string>();
+
+// Diagnostics from whole workspace analysis are registered in fileRelationMap under this source instead of a document uri
+const workspaceAnalysisSource = 'cppcheck-official:workspace';
+const workspaceSourceFileGlob = '**/*.{c,cpp,cc,cxx,c++}';
+const sourceFilePattern = /\.(c|cpp|cc|cxx|c\+\+)$/;
+const headerFileGlob = '**/*.{h,hh,hpp,hxx,h++,inl,ipp,tpp}';
+// Interval in milliseconds at which diagnostics are published while cppcheck is still running
+const diagnosticPublishInterval = 250;
 
 const criticalWarningTypes = [
     'cppcheckError',
@@ -51,69 +124,98 @@ const criticalWarningTypes = [
 const pathVariableArgs = [
     '--project',
     '--addon',
+    '--addon-python',
     '--suppressions-list',
+    '--suppress-xml',
     '--include',
     '--rule-file',
 ];
 
-function parseSeverity(str: string): vscode.DiagnosticSeverity {
-    const lower = str.toLowerCase();
-    if (lower.includes("error")) {
-        return vscode.DiagnosticSeverity.Error;
-    } else if (lower.includes("warning")) {
-        return vscode.DiagnosticSeverity.Warning;
-    } else {
-        return vscode.DiagnosticSeverity.Information;
-    }
-}
-
-function severityToNumber(sev: vscode.DiagnosticSeverity): SeverityNumber {
-    switch (sev) {
-        case vscode.DiagnosticSeverity.Error: return SeverityNumber.Error;
-        case vscode.DiagnosticSeverity.Warning: return SeverityNumber.Warning;
-        default: return SeverityNumber.Info;
-    }
-}
-
-function parseMinSeverity(str: string): SeverityNumber {
-    switch (str.toLowerCase()) {
-        case "error": return SeverityNumber.Error;
-        case "warning": return SeverityNumber.Warning;
-        default: return SeverityNumber.Info;
-    }
+// Critical errors and unmatched suppressions are shown whatever severities are enabled
+function createVisibilityFilter(uri: vscode.Uri): (diagnostic: vscode.Diagnostic) => boolean {
+    const enabledSeverities = getEnabledSeverities(uri);
+    const inconclusiveShown = isInconclusiveShown(uri);
+    return (diagnostic) => {
+        const code = diagnostic.code;
+        const checkerId = String(typeof(code) === "object" && code !== null ? code.value : code);
+        if (criticalWarningTypes.includes(checkerId) || isUnmatchedSuppressionDiagnostic(diagnostic)) {
+            return true;
+        }
+        const metadata = diagnosticMetadataStore.get(diagnostic);
+        if (metadata?.inconclusive && !inconclusiveShown) {
+            return false;
+        }
+        return enabledSeverities.includes(toCppcheckSeverity(metadata?.cppcheckSeverity));
+    };
 }
 
-function filterOutDiagnosticsBelowSeverityLevel(diagnosticCollection : vscode.DiagnosticCollection, severity : vscode.DiagnosticSeverity) {
-    diagnosticCollection.forEach((uri : vscode.Uri, diagnostics : readonly vscode.Diagnostic[], collection: vscode.DiagnosticCollection) => {
-        const filteredDiagnostics = diagnostics?.filter((diagnostic : vscode.Diagnostic) => {
-            if (severityToNumber(diagnostic.severity) < severityToNumber(severity)) {
-                return false;
-            }
-            return true;
-        });
-        collection.set(uri, filteredDiagnostics);
-    });
+// Unmatched suppressions are shown as faded hints on the suppression comment
+function isUnmatchedSuppressionDiagnostic(diagnostic: vscode.Diagnostic): boolean {
+    const code = diagnostic.code;
+    return (typeof(code) === "object" && code !== null ? code.value : code) === 'unmatchedSuppression';
 }
 
-function updateProgressIndicator(): void {
-	if (checksRunning) {
-		cppcheckProgressIndicator.text = `$(loading~spin) Cppcheck Running ..`;
+function updateProgressIndicator(state: SchedulerState): void {
+	if (state.running > 0) {
+		cppcheckProgressIndicator.text = state.queued > 0
+            ? `$(loading~spin) Cppcheck Running (${state.queued} queued) ..`
+            : `$(loading~spin) Cppcheck Running ..`;
+        cppcheckProgressIndicator.tooltip = `${state.running} cppcheck analyses running, ${state.queued} queued`;
 		cppcheckProgressIndicator.show();
         // To avoid crowding status bar we alternate between progress indicator and severity option item
         severityOption.hide();
+        inconclusiveOption.hide();
+        profileOption.hide();
 	} else {
 		cppcheckProgressIndicator.hide();
         severityOption.show();
+        updateInconclusiveOption();
+        updateProfileOption();
 	}
 }
 
-function updateMinSeverityOption(): void {
-    const mode = vscode.workspace.getConfiguration('cppcheck-official').get<string>('minSeverity', 'info');
-    severityOption.text = `$(gear) Cppcheck severity: ${mode}`;
-    severityOption.tooltip = 'Select minimum level of warning severity for cppcheck analysis';
+function updateSeverityOption(): void {
+    // Show the setting of the workspace folder owning the active editor
+    const scope = vscode.window.activeTextEditor?.document.uri;
+    const enabledSeverities = getEnabledSeverities(scope);
+    const description = enabledSeverities.length === cppcheckSeverities.length
+        ? 'all'
+        : enabledSeverities.length === 0 ? 'none' : enabledSeverities.join(', ');
+    severityOption.text = `$(gear) Cppcheck severities: ${description}`;
+    severityOption.tooltip = 'Select the severities of cppcheck findings to show';
     severityOption.show();
 }
 
+function updateInconclusiveOption(): void {
+    // Only shown where cppcheck reports inconclusive findings
+    const scope = vscode.window.activeTextEditor?.document.uri;
+    if (!vscode.workspace.getConfiguration('cppcheck-official', scope).get<boolean>('inconclusive', false)) {
+        inconclusiveOption.hide();
+        return;
+    }
+    const shown = isInconclusiveShown(scope);
+    inconclusiveOption.text = `$(${shown ? 'eye' : 'eye-closed'}) Inconclusive`;
+    inconclusiveOption.tooltip = shown
+        ? 'Inconclusive cppcheck findings are shown, click to hide them'
+        : 'Inconclusive cppcheck findings are hidden, click to show them';
+    inconclusiveOption.show();
+}
+
+function updateProfileOption(): void {
+    // Only shown once profiles are set up
+    const scope = vscode.window.activeTextEditor?.document.uri;
+    if (getProfiles(scope).length === 0) {
+        profileOption.hide();
+        return;
+    }
+    const activeProfile = getActiveProfile(scope);
+    profileOption.text = `$(layers) Cppcheck profile: ${activeProfile?.name ?? 'default'}`;
+    profileOption.tooltip = activeProfile
+        ? `${describeProfile(activeProfile) || activeProfile.name}\n\nSelect the cppcheck analysis profile`
+        : 'Select the cppcheck analysis profile';
+    profileOption.show();
+}
+
 function getDocumentSha1(document: vscode.TextDocument): string {
     return crypto
         .createHash('sha1')
@@ -121,18 +223,282 @@ function getDocumentSha1(document: vscode.TextDocument): string {
         .digest('hex');
 }
 
+// Text is hashed the same way as the text of documents, without the byte order mark that documents do not show
+async function getFileSha1(file: string): Promise<string> {
+    const text = await fs.promises.readFile(file, 'utf8');
+    return crypto
+        .createHash('sha1')
+        .update(text.replace(/^\uFEFF/, ''), 'utf8')
+        .digest('hex');
+}
+
+function readCommandPath(scope?: vscode.Uri, profile = getActiveProfile(scope)): string {
+    const userPath = (profile?.path ?? vscode.workspace.getConfiguration("cppcheck-official", scope).get<string>("path"))?.trim() || "";
+    return userPath ? resolvePath(userPath, scope) : "cppcheck";
+}
+
+interface AnalysisSettings {
+    isEnabled: boolean;
+    runOn: string;
+    commandPath: string;
+    processedArgs: string[];
+    analysisScope: AnalysisScope;
+    gitBaseRef: string;
+}
+
+// Decides whether a finding is shown, see cppcheck-official.scope
+type FindingFilter = (uri: vscode.Uri, diagnostic: vscode.Diagnostic) => Promise<boolean>;
+
+// A new filter is created for each analysis, so that it compares with the current state of the working tree
+function createFindingFilter(analysisScope: AnalysisScope, gitBaseRef: string): FindingFilter | undefined {
+    if (analysisScope === "all") {
+        return undefined;
+    }
+    const gitChanges = new GitChanges(gitBaseRef, logger);
+    if (analysisScope === "changedFiles") {
+        return (uri) => gitChanges.isFileChanged(uri.fsPath);
+    }
+    return (uri, diagnostic) => gitChanges.isLineChanged(uri.fsPath, diagnostic.range.start.line + 1);
+}
+
+// The argument string is split like a shell would, the argument list is used as is
+function readArgumentSettings(config: vscode.WorkspaceConfiguration, profile?: AnalysisProfile): string[] {
+    const profileHasArguments = profile?.arguments !== undefined || profile?.argumentList !== undefined;
+    return [
+        ...tokenizeArguments((profileHasArguments ? profile?.arguments : config.get<string>("arguments")) ?? ""),
+        ...((profileHasArguments ? profile?.argumentList : config.get<string[]>("argumentList")) ?? []),
+    ];
+}
+
+// Whether the analyses of the workspace folder use the changed compile_commands.json. When it is unknown which file
+// changed, i.e. when CMake Tools reconfigured, every folder finding its compile_commands.json automatically may be affected.
+async function usesCompileCommands(folder: vscode.WorkspaceFolder, changedFile: vscode.Uri | undefined): Promise<boolean> {
+    const scope = folder.uri;
+    const config = vscode.workspace.getConfiguration("cppcheck-official", scope);
+    const profile = getActiveProfile(scope);
+    const project = (profile?.project ?? config.get<string>("project", "")).trim();
+    if (project === "auto") {
+        return changedFile === undefined || compileCommandsLocator.isInUse(folder, changedFile.fsPath);
+    }
+    const projectPaths = [
+        project,
+        ...readArgumentSettings(config, profile)
+            .filter((arg) => arg.startsWith('--project='))
+            .map((arg) => arg.slice('--project='.length)),
+    ];
+    return changedFile !== undefined
+        && projectPaths.some((projectPath) => projectPath && path.normalize(resolvePath(projectPath, scope)) === path.normalize(changedFile.fsPath));
+}
+
+// Settings are resource scoped, so they are read for the workspace folder owning the scope
+// The path, arguments and project of the active profile are used, unless another profile is given for a one-off analysis
+// Returns undefined if the arguments could not be set up, i.e. if an argument script failed
+async function readAnalysisSettings(scope?: vscode.Uri, profile = getActiveProfile(scope)): Promise<AnalysisSettings | undefined> {
+    const config = vscode.workspace.getConfiguration("cppcheck-official", scope);
+    const isEnabled = config.get<boolean>("enable", true);
+    const runOn = config.get<string>("runOn", "save");
+    const commandPath = readCommandPath(scope, profile);
+    const analysisScope = config.get<AnalysisScope>("scope", "all");
+    const gitBaseRef = config.get<string>("gitBaseRef", "").trim() || "HEAD";
+    const inconclusive = config.get<boolean>("inconclusive", false);
+
+    const args = readArgumentSettings(config, profile);
+
+    // If arguments contain commands to run scripts we do so here
+    let processedArgs: string[];
+    try {
+        processedArgs = await expandScriptArguments(args, (command) => runArgumentScript(command, scope));
+    } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        logger.error(message);
+        showErrorWithLog(`Cppcheck: Argument script failed, analysis skipped. ${message}`);
+        return undefined;
+    }
+
+    // A project given in the arguments takes precedence over the project setting
+    const project = (profile?.project ?? config.get<string>("project", "")).trim();
+    if (project && !processedArgs.some((arg) => arg.startsWith('--project='))) {
+        const folder = (scope && vscode.workspace.getWorkspaceFolder(scope)) ?? vscode.workspace.workspaceFolders?.[0];
+        const projectPath = project === "auto"
+            ? (folder ? await compileCommandsLocator.find(folder) : undefined)
+            : resolvePath(project, scope);
+        if (projectPath) {
+            processedArgs.push(`--project=${projectPath}`);
+        }
+    }
+
+    if (inconclusive && !processedArgs.includes('--inconclusive')) {
+        processedArgs.push('--inconclusive');
+    }
+    processedArgs.push(...await getAddonArguments(processedArgs, scope));
+
+    return { isEnabled, runOn, commandPath, processedArgs, analysisScope, gitBaseRef };
+}
+
+async function runArgumentScript(command: string, scope?: vscode.Uri): Promise<string> {
+    const cachedOutput = scriptOutputCache.get(command, scope);
+    if (cachedOutput !== undefined) {
+        return cachedOutput;
+    }
+
+    const timeoutSeconds = vscode.workspace.getConfiguration("cppcheck-official", scope).get<number>("scriptTimeout", 30);
+    logger.info(`Running argument script: ${command}`);
+    const startTime = Date.now();
+    const { stdout, stderr } = await runCommand(command, scope, timeoutSeconds);
+    logger.info(`Argument script finished after ${Date.now() - startTime} ms`);
+    if (stdout.trim().length > 0) {
+        logger.debug(`Script output:\n${stdout.trimEnd()}`);
+    }
+    if (stderr.trim().length > 0) {
+        logger.warn(`Script error output:\n${stderr.trimEnd()}`);
+    }
+    scriptOutputCache.set(command, stdout, scope);
+    return stdout;
+}
+
+// The version of each cppcheck executable is looked up once per session, failures are not remembered
+function getCppcheckVersion(commandPath: string): Promise<string | undefined> {
+    const knownVersion = cppcheckVersions.get(commandPath);
+    if (knownVersion) {
+        return Promise.resolve(knownVersion);
+    }
+    return new Promise((resolve) => {
+        cp.exec(`"${commandPath}" --version`, (error, stdout) => {
+            if (error) {
+                logger.error(`Could not run '${commandPath} --version': ${error.message}`);
+                resolve(undefined);
+                return;
+            }
+            const version = stdout.trim();
+            logger.debug(`Using ${version} (${commandPath})`);
+            cppcheckVersions.set(commandPath, version);
+            resolve(version);
+        });
+    });
+}
+
+async function checkCppcheckAvailable(commandPath: string) {
+    if (!await getCppcheckVersion(commandPath)) {
+        showErrorWithLog(
+            `Cppcheck: Could not find or run '${commandPath}'. ` +
+            `Please install cppcheck or set 'cppcheck-official.path' correctly.`
+        );
+    }
+}
+
+// The suppression target of the workspace folder owning the scope, from its current settings
+// Only the settings themselves are read, argument scripts are not run for it
+function readSuppressionTarget(scope?: vscode.Uri): SuppressionTarget | undefined {
+    const config = vscode.workspace.getConfiguration("cppcheck-official", scope);
+    const profile = getActiveProfile(scope);
+    const args = readArgumentSettings(config, profile);
+    const project = (profile?.project ?? config.get<string>("project", "")).trim();
+    if (project && project !== "auto" && !args.some((arg) => arg.startsWith('--project='))) {
+        args.push(`--project=${project}`);
+    }
+    return findSuppressionTarget(args, scope);
+}
+
+async function checkPythonAvailable(args: string[], scope?: vscode.Uri) {
+    const python = getAddonPython(args, scope);
+    if (!python || availablePythons.has(python) || missingPythonsReported.has(python)) {
+        return;
+    }
+    const found = await new Promise<boolean>((resolve) => {
+        cp.exec(`"${python}" --version`, (error, stdout, stderr) => {
+            if (error) {
+                logger.error(`Could not run '${python} --version': ${error.message}`);
+                resolve(false);
+                return;
+            }
+            logger.debug(`Using ${(stdout || stderr).trim()} (${python}) for addons`);
+            resolve(true);
+        });
+    });
+    if (found) {
+        availablePythons.add(python);
+        return;
+    }
+    // Reported once, as every analysis would fail the same way
+    missingPythonsReported.add(python);
+    const settingsAction = 'Set Python Path';
+    const selection = await vscode.window.showErrorMessage(
+        `Cppcheck: Addons need Python, but '${python}' could not be found or run. ` +
+        `Please install Python 3 or set 'cppcheck-official.pythonPath' correctly.`,
+        settingsAction
+    );
+    if (selection === settingsAction) {
+        vscode.commands.executeCommand('workbench.action.openSettings', 'cppcheck-official.pythonPath');
+    }
+}
+
 // This method is called when your extension is activated.
 // Your extension is activated the very first time the command is executed.
 export async function activate(context: vscode.ExtensionContext) {    
     // Create a diagnostic collection.
-    const diagnosticCollection = vscode.languages.createDiagnosticCollection("Cppcheck");
+    // Findings of all severities are kept, only those of the enabled severities are shown
+    const shownDiagnosticCollection = vscode.languages.createDiagnosticCollection("Cppcheck");
+    const diagnosticCollection = new FilteredDiagnosticCollection(shownDiagnosticCollection, createVisibilityFilter);
     context.subscriptions.push(diagnosticCollection);
 
+    // Log of cppcheck invocations, their output and failures
+    logger = new CppcheckLogger();
+    context.subscriptions.push(logger);
+
+    // All analyses run through the scheduler, which limits how many cppcheck processes run at the same time
+    analysisScheduler = new AnalysisScheduler(logger);
+    context.subscriptions.push(
+        analysisScheduler,
+        analysisScheduler.onDidChangeState((state) => updateProgressIndicator(state))
+    );
+
+    resultCache = new AnalysisResultCache(context.storageUri, logger);
+    baselineStore = new BaselineStore(logger);
+    hiddenWarningStore = new HiddenWarningStore(context.workspaceState);
+    unmatchedSuppressionStore = new UnmatchedSuppressionStore();
+    context.subscriptions.push(unmatchedSuppressionStore);
+    misraRuleTexts = new MisraRuleTexts();
+    context.subscriptions.push(misraRuleTexts);
+
+    // Register a command for enabling built-in addons and adding addon files
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            "cppcheck-official.configureAddons",
+            () => configureAddons(vscode.window.activeTextEditor?.document.uri)
+        )
+    );
+
+    // Register a command for opening the log
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            'cppcheck-official.showLog',
+            () => logger.show()
+        )
+    );
+
+    // Watch the files that invalidate cached argument script output
+    scriptOutputCache.updateWatchers();
+    context.subscriptions.push(
+        scriptOutputCache,
+        vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration("cppcheck-official.scriptCacheFiles")) {
+                scriptOutputCache.updateWatchers();
+            } else if (event.affectsConfiguration("cppcheck-official.arguments")
+                || event.affectsConfiguration("cppcheck-official.argumentList")
+                || event.affectsConfiguration("cppcheck-official.profiles")) {
+                scriptOutputCache.clear();
+            }
+        }),
+        vscode.workspace.onDidChangeWorkspaceFolders(() => {
+            scriptOutputCache.updateWatchers();
+        })
+    );
+
     // Set up code actions provider
     context.subscriptions.push(
         vscode.languages.registerCodeActionsProvider(
             { pattern: "**/*" },
-            new CodeActionProvider(diagnosticMetadataStore, projectFileStore),
+            new CodeActionProvider(diagnosticMetadataStore, suppressionTargetStore),
             {
                 providedCodeActionKinds: [
                     vscode.CodeActionKind.QuickFix
@@ -141,6 +507,42 @@ export async function activate(context: vscode.ExtensionContext) {
         )
     );
 
+    // Set up hover provider with the details of findings
+    context.subscriptions.push(
+        vscode.languages.registerHoverProvider(
+            { pattern: "**/*" },
+            new DiagnosticHoverProvider(shownDiagnosticCollection, diagnosticMetadataStore)
+        )
+    );
+
+    // Findings with several locations can be followed step by step, from a code lens or the finding under the cursor
+    const traceCodeLensProvider = new TraceCodeLensProvider(shownDiagnosticCollection);
+    const traceNavigator = new TraceNavigator();
+    context.subscriptions.push(
+        traceCodeLensProvider,
+        traceNavigator,
+        vscode.languages.registerCodeLensProvider({ pattern: "**/*" }, traceCodeLensProvider),
+        vscode.commands.registerCommand(
+            "cppcheck-official.showTrace",
+            async (uri?: vscode.Uri, diagnostic?: vscode.Diagnostic) => {
+                if (!uri || !diagnostic) {
+                    const editor = vscode.window.activeTextEditor;
+                    uri = editor?.document.uri;
+                    diagnostic = editor && (shownDiagnosticCollection.get(editor.document.uri) ?? [])
+                        .find((d) => d.range.contains(editor.selection.active) && getTraceSteps(d).length > 0);
+                }
+                if (!uri || !diagnostic) {
+                    vscode.window.showInformationMessage('Cppcheck: There is no finding with a trace at the cursor.');
+                    return;
+                }
+                await traceNavigator.show(uri, diagnostic);
+            }
+        ),
+        vscode.commands.registerCommand("cppcheck-official.nextTraceStep", () => traceNavigator.step(1)),
+        vscode.commands.registerCommand("cppcheck-official.previousTraceStep", () => traceNavigator.step(-1)),
+        vscode.commands.registerCommand("cppcheck-official.clearTrace", () => traceNavigator.clear())
+    );
+
     // Register a command to push user to workspace settings from walkthrough
     context.subscriptions.push(
         vscode.commands.registerCommand(
@@ -158,41 +560,84 @@ export async function activate(context: vscode.ExtensionContext) {
     context.subscriptions.push(
         vscode.commands.registerCommand(
             "cppcheck-official.suppressWarningAll",
-            async (diagnosticCode : string, file? : string, symbolName? : string) => {
-                const projectFileUri = projectFileStore.getUri();
-                if (projectFileUri && projectFileStore.hasCppcheckProjectFile()) {
-                    const success = await writeSuppressionToProjectFile(projectFileUri, diagnosticCode, file, symbolName);
-                    if (success) {
-                        // Construct information message to display to the user
-                        const fileMessagePart = file ? ` for file ${file}` : ''; 
-                        const symbolNameMessagePart = symbolName ? ` for symbol name ${symbolName}` : '';
-                        const fileOrSymbolExtraMessage = file || symbolName ? '. Note: you have to re-analyze the file for the suppression to take effect.' : '';
-                        const completeInformationMessageText = `Suppression of ${diagnosticCode} added to project file ${projectFileStore.getUri()?.toString()}${fileMessagePart}${symbolNameMessagePart}${fileOrSymbolExtraMessage}`;
-                        vscode.window.showInformationMessage(completeInformationMessageText);
-                        
-                        // Only hide warnings if suppression is global, since hide command does not support file or symbol filter for now
-                        if (!file && !symbolName) {
-                            await vscode.commands.executeCommand('cppcheck-official.hideWarningType', diagnosticCode);
-                        }
-                    } else {
-                        vscode.window.showErrorMessage(`Failed to add suppression of ${diagnosticCode} to project file ${projectFileStore.getUri()?.toString()}`);
+            async (diagnosticCode : string, file? : string, symbolName? : string, scope? : vscode.Uri) => {
+                // The suppression goes to the file set up for the workspace folder of the warning
+                scope ??= vscode.window.activeTextEditor?.document.uri;
+                const target = readSuppressionTarget(scope) ?? await createSuppressionsFile(scope);
+                if (!target) {
+                    return;
+                }
+                const targetDescription = `${describeSuppressionTarget(target)} ${target.uri.fsPath}`;
+                let success = false;
+                try {
+                    success = await writeSuppression(target, diagnosticCode, file, symbolName);
+                } catch (err) {
+                    logger.error(`Failed to add suppression of ${diagnosticCode} to ${targetDescription}: ${err}`);
+                }
+                if (success) {
+                    // Construct information message to display to the user
+                    const fileMessagePart = file ? ` for file ${file}` : ''; 
+                    const symbolNameMessagePart = symbolName ? ` for symbol name ${symbolName}` : '';
+                    const completeInformationMessageText = `Suppression of ${diagnosticCode} added to ${targetDescription}${fileMessagePart}${symbolNameMessagePart}`;
+                    vscode.window.showInformationMessage(completeInformationMessageText);
+
+                    // The suppressions file may just have been created and added to the arguments, and the cached results
+                    // of unchanged documents do not know about the new suppression yet
+                    reanalyzeVisibleDocuments();
+                    
+                    // Only hide warnings if suppression is global, since hide command does not support file or symbol filter for now
+                    // The suppression takes care of future analyses, so the warning type is not hidden permanently
+                    if (!file && !symbolName) {
+                        await vscode.commands.executeCommand('cppcheck-official.hideWarningType', diagnosticCode, false);
                     }
                 } else {
-                    throw new Error(`Cppcheck Official error: Command 'cppcheck-official.suppressWarningAll' for project file level suppression called without project file present!`);
+                    showErrorWithLog(`Failed to add suppression of ${diagnosticCode} to ${targetDescription}`);
                 }
             }
         )
     );
 
+    // Creates a suppressions file in the workspace folder of the scope and passes it to cppcheck through the argument list
+    async function createSuppressionsFile(scope?: vscode.Uri): Promise<SuppressionTarget | undefined> {
+        const folder = (scope && vscode.workspace.getWorkspaceFolder(scope)) ?? vscode.workspace.workspaceFolders?.[0];
+        if (!folder) {
+            vscode.window.showErrorMessage('Cppcheck: Open a folder or workspace to create a suppressions file.');
+            return undefined;
+        }
+        const createAction = 'Create Suppressions File';
+        const selection = await vscode.window.showInformationMessage(
+            `Cppcheck: No suppressions file or .cppcheck project file is set up. Create ${defaultSuppressionsFileName} in ${folder.name} and add it to the arguments?`,
+            createAction
+        );
+        if (selection !== createAction) {
+            return undefined;
+        }
+
+        const config = vscode.workspace.getConfiguration("cppcheck-official", folder.uri);
+        await config.update(
+            "argumentList",
+            [...config.get<string[]>("argumentList", []), `--suppressions-list=\${workspaceFolder}/${defaultSuppressionsFileName}`],
+            vscode.ConfigurationTarget.WorkspaceFolder
+        );
+        const target: SuppressionTarget = {
+            kind: 'suppressionsList',
+            uri: vscode.Uri.joinPath(folder.uri, defaultSuppressionsFileName)
+        };
+        suppressionTargetStore.set(folder.uri, target);
+        logger.info(`Created suppressions file ${target.uri.fsPath}`);
+        return target;
+    }
+
     // Register a command for hiding a warning
+    // Hidden warnings are remembered unless persist is false, e.g. when the warning has been suppressed as well
     context.subscriptions.push(
         vscode.commands.registerCommand(
             "cppcheck-official.hideWarning",
-            async (uri : vscode.Uri, diagnosticCode : string, range : vscode.Range) => {
+            async (uri : vscode.Uri, diagnosticCode : string, range : vscode.Range, persist = true) => {
                 const diagnostics = diagnosticCollection.get(uri);
                 const filteredDiagnostics = diagnostics?.filter((diagnostic : vscode.Diagnostic) => {
                     var code = diagnostic.code;
-                    if (typeof(code) === "object" && typeof(code) !== null) {
+                    if (typeof(code) === "object" && code !== null) {
                         code = code.value;
                     }
                     if (code === diagnosticCode && diagnostic.range.isEqual(range)) {
@@ -201,6 +646,24 @@ export async function activate(context: vscode.ExtensionContext) {
                     return true;
                 });
                 diagnosticCollection.set(uri, filteredDiagnostics);
+
+                const hiddenDiagnostic = diagnostics?.find((diagnostic) => !filteredDiagnostics?.includes(diagnostic));
+                if (persist && hiddenDiagnostic) {
+                    const metadata = diagnosticMetadataStore.get(hiddenDiagnostic);
+                    await hiddenWarningStore.hideWarning({
+                        checkerId: diagnosticCode,
+                        file: vscode.workspace.asRelativePath(uri),
+                        line: range.start.line + 1,
+                        message: hiddenDiagnostic.message,
+                        fingerprint: createBaselineEntry(
+                            uri,
+                            diagnosticCode,
+                            metadata?.symbolName || undefined,
+                            metadata?.mainLocLine ?? '',
+                            metadata?.mainLocOccurrence
+                        ).fingerprint
+                    });
+                }
             }
         )
     );
@@ -209,11 +672,14 @@ export async function activate(context: vscode.ExtensionContext) {
     context.subscriptions.push(
         vscode.commands.registerCommand(
             "cppcheck-official.hideWarningType",
-            async (diagnosticCode : string) => {
+            async (diagnosticCode : string, persist = true) => {
+                if (persist) {
+                    await hiddenWarningStore.hideType(diagnosticCode);
+                }
                 diagnosticCollection.forEach((uri : vscode.Uri, diagnostics : readonly vscode.Diagnostic[], collection : vscode.DiagnosticCollection) => {
                     const filteredDiagnostics = diagnostics?.filter((diagnostic : vscode.Diagnostic) => {
                         var code = diagnostic.code;
-                        if (typeof(code) === "object" && typeof(code) !== null) {
+                        if (typeof(code) === "object" && code !== null) {
                             code = code.value;
                         }
                         if (code === diagnosticCode) {
@@ -231,7 +697,9 @@ export async function activate(context: vscode.ExtensionContext) {
         vscode.commands.registerCommand(
             "cppcheck-official.suppressWarningAdvanced",
             async (diagnosticCode : string, doc : vscode.TextDocument, diagnostic : vscode.Diagnostic) => {
-                const storedSymbolName = diagnosticMetadataStore.get(diagnostic)?.symbolName;
+                // Symbol names can only be written to project files and XML suppressions files
+                const suppressionTarget = readSuppressionTarget(doc.uri);
+                const storedSymbolName = supportsSymbolName(suppressionTarget) ? diagnosticMetadataStore.get(diagnostic)?.symbolName : undefined;
                 const symbolExistsForDiagnostic = !!storedSymbolName;
                 const file = await vscode.window.showInputBox(
                     {
@@ -267,110 +735,489 @@ export async function activate(context: vscode.ExtensionContext) {
                         return;
                     }
                 }
-                await vscode.commands.executeCommand('cppcheck-official.suppressWarningAll', diagnosticCode, file, symbolName?.value);
+                await vscode.commands.executeCommand('cppcheck-official.suppressWarningAll', diagnosticCode, file, symbolName?.value, doc.uri);
             }
         )
     );
 
+    // Tree view of all findings, grouped by file, checker ID or severity
+    const findingsGroupingKey = 'cppcheck-official.findingsGrouping';
+    const findingsTreeProvider = new FindingsTreeProvider(
+        shownDiagnosticCollection,
+        diagnosticMetadataStore,
+        context.workspaceState.get<FindingsGrouping>(findingsGroupingKey, 'file')
+    );
+    const findingsTreeView = vscode.window.createTreeView('cppcheck-official.findings', {
+        treeDataProvider: findingsTreeProvider,
+        showCollapseAll: true
+    });
+    const updateFindingsDescription = () => {
+        const count = findingsTreeProvider.getFindingCount();
+        findingsTreeView.description = count === 1 ? '1 finding' : `${count} findings`;
+    };
+    context.subscriptions.push(
+        findingsTreeProvider,
+        findingsTreeView,
+        findingsTreeProvider.onDidChangeTreeData(updateFindingsDescription)
+    );
+    updateFindingsDescription();
+
     context.subscriptions.push(
         vscode.commands.registerCommand(
-            "cppcheck-official.selectMinSeverity",
+            "cppcheck-official.groupFindings",
             async () => {
-                const current = vscode.workspace
-                    .getConfiguration("cppcheck-official")
-                    .get<string>("minSeverity", "info");
-
+                const current = findingsTreeProvider.getGrouping();
                 const selection = await vscode.window.showQuickPick(
                     [
-                        {
-                            label: "Info",
-                            description: current === "info" ? "Cppcheck analysis minimum level: Info" : "",
-                            value: "info"
-                        },
-                        {
-                            label: "Warning",
-                            description: current === "warning" ? "Cppcheck analysis minimum level: Warning" : "",
-                            value: "warning"
-                        },
-                        {
-                            label: "Error",
-                            description: current === "error" ? "Cppcheck analysis minimum level: Error" : "",
-                            value: "error"
-                        }
-                    ],
+                        { label: "File", value: "file" as FindingsGrouping },
+                        { label: "Checker ID", value: "checker" as FindingsGrouping },
+                        { label: "Severity", value: "severity" as FindingsGrouping }
+                    ].map((item) => ({ ...item, description: item.value === current ? "Current grouping" : "" })),
                     {
-                        title: "Select Mode"
+                        title: "Group Cppcheck Findings By"
                     }
                 );
                 if (!selection) {
                     return;
                 }
+                findingsTreeProvider.setGrouping(selection.value);
+                await context.workspaceState.update(findingsGroupingKey, selection.value);
+            }
+        ),
+        // Context menu actions of the findings view forward to the commands used by the quick fixes
+        vscode.commands.registerCommand(
+            "cppcheck-official.hideFinding",
+            async (finding : FindingItem) => {
+                await vscode.commands.executeCommand('cppcheck-official.hideWarning', finding.uri, finding.code, finding.diagnostic.range);
+            }
+        ),
+        vscode.commands.registerCommand(
+            "cppcheck-official.hideFindingType",
+            async (finding : FindingItem) => {
+                await vscode.commands.executeCommand('cppcheck-official.hideWarningType', finding.code);
+            }
+        ),
+        vscode.commands.registerCommand(
+            "cppcheck-official.suppressFindingAll",
+            async (finding : FindingItem) => {
+                await vscode.commands.executeCommand('cppcheck-official.suppressWarningAll', finding.code, undefined, undefined, finding.uri);
+            }
+        )
+    );
 
-                await vscode.workspace
-                    .getConfiguration("cppcheck-official")
-                    .update(
-                        "minSeverity",
-                        selection.value,
-                        vscode.ConfigurationTarget.Workspace
+    // Tree view of the suppressions from inline comments, arguments, suppressions files and project files
+    const suppressionsTreeProvider = new SuppressionsTreeProvider(unmatchedSuppressionStore);
+    context.subscriptions.push(
+        suppressionsTreeProvider,
+        vscode.window.createTreeView('cppcheck-official.suppressions', {
+            treeDataProvider: suppressionsTreeProvider,
+            showCollapseAll: true
+        }),
+        vscode.commands.registerCommand(
+            "cppcheck-official.refreshSuppressions",
+            () => suppressionsTreeProvider.refresh()
+        ),
+        vscode.commands.registerCommand(
+            "cppcheck-official.editSuppression",
+            async (item : SuppressionItem) => {
+                const entry = item.entry;
+                // Multi-line XML elements are edited in the file itself
+                if (entry.text.includes('\n') && entry.location) {
+                    await vscode.commands.executeCommand('vscode.open', entry.location.uri, { selection: entry.location.range });
+                    return;
+                }
+                const text = await vscode.window.showInputBox({
+                    title: `Edit Suppression of ${entry.ids.join(', ')}`,
+                    value: entry.text,
+                    validateInput: (value) => value.trim() ? undefined : 'The suppression cannot be empty, delete it instead'
+                });
+                if (text === undefined || text === entry.text) {
+                    return;
+                }
+                if (!await editSuppression(entry, text.trim())) {
+                    vscode.window.showErrorMessage('Cppcheck: Could not edit the suppression, it may have changed since it was found. Please edit it manually.');
+                }
+                suppressionsTreeProvider.refresh();
+            }
+        ),
+        vscode.commands.registerCommand(
+            "cppcheck-official.deleteSuppression",
+            async (item : SuppressionItem) => {
+                const entry = item.entry;
+                const confirmation = await vscode.window.showWarningMessage(
+                    `Delete the suppression of ${entry.ids.join(', ')}?`,
+                    { modal: true, detail: entry.text },
+                    'Delete'
+                );
+                if (confirmation !== 'Delete') {
+                    return;
+                }
+                if (!await deleteSuppression(entry)) {
+                    vscode.window.showErrorMessage('Cppcheck: Could not delete the suppression, it may have changed since it was found. Please remove it manually.');
+                }
+                suppressionsTreeProvider.refresh();
+            }
+        ),
+        // Removes the inline suppressions shown as unmatched, and project file suppressions cppcheck reported as unmatched
+        vscode.commands.registerCommand(
+            "cppcheck-official.removeUnmatchedSuppressions",
+            async (fileUri? : vscode.Uri) => {
+                let scope = fileUri;
+                const activeUri = vscode.window.activeTextEditor?.document.uri;
+                if (!scope && activeUri) {
+                    const selection = await vscode.window.showQuickPick(
+                        [
+                            { label: "Current File", description: vscode.workspace.asRelativePath(activeUri), uri: activeUri as vscode.Uri | undefined },
+                            { label: "Workspace", uri: undefined }
+                        ],
+                        { title: "Remove Unmatched Suppressions In" }
                     );
-                    
-                // Clear diagnostics below severity level selected from the problems tab
-                filterOutDiagnosticsBelowSeverityLevel(diagnosticCollection, parseSeverity(selection.value));
+                    if (!selection) {
+                        return;
+                    }
+                    scope = selection.uri;
+                }
+
+                const edit = new vscode.WorkspaceEdit();
+                let removedCount = 0;
+                const unmatchedDiagnostics: [vscode.Uri, vscode.Diagnostic[]][] = [];
+                diagnosticCollection.forEach((uri, diagnostics) => {
+                    if (!scope || uri.toString() === scope.toString()) {
+                        unmatchedDiagnostics.push([uri, diagnostics.filter(isUnmatchedSuppressionDiagnostic)]);
+                    }
+                });
+                for (const [uri, diagnostics] of unmatchedDiagnostics) {
+                    const removals = diagnostics.flatMap((diagnostic) => {
+                        const id = getUnmatchedSuppressionId(diagnostic.message);
+                        return id ? [{ line: diagnostic.range.start.line, id }] : [];
+                    });
+                    if (removals.length > 0) {
+                        removedCount += removeInlineSuppressionIds(await vscode.workspace.openTextDocument(uri), removals, edit);
+                    }
+                }
+
+                const projectFileSuppressions = (await findConfiguredSuppressions()).filter((entry) =>
+                    entry.kind === 'projectFile'
+                    && unmatchedSuppressionStore.isUnmatched(entry)
+                    && (!scope || (entry.file !== undefined && appliesToFile(entry, scope.fsPath))));
+                for (const entry of projectFileSuppressions) {
+                    // Entries are found in the project file on disk, so unsaved changes to it are left alone
+                    const isDirty = vscode.workspace.textDocuments.some((d) => d.isDirty && d.uri.toString() === entry.location!.uri.toString());
+                    if (!isDirty) {
+                        edit.delete(entry.location!.uri, entry.removalRange!);
+                        removedCount++;
+                    }
+                }
 
-                updateMinSeverityOption();
+                if (removedCount === 0) {
+                    vscode.window.showInformationMessage('Cppcheck: No unmatched suppressions found. Unmatched suppressions are found by analyzing the files they are in.');
+                    return;
+                }
+                if (!await vscode.workspace.applyEdit(edit)) {
+                    vscode.window.showErrorMessage('Cppcheck: Could not remove the unmatched suppressions.');
+                    return;
+                }
+                for (const [uri] of edit.entries()) {
+                    await (await vscode.workspace.openTextDocument(uri)).save();
+                    diagnosticCollection.set(uri, diagnosticCollection.get(uri)?.filter((d) => !isUnmatchedSuppressionDiagnostic(d)));
+                }
+                vscode.window.showInformationMessage(`Cppcheck: Removed ${removedCount} unmatched suppression${removedCount === 1 ? '' : 's'}.`);
             }
         )
     );
 
-    // ProgressIndicator status bar item to show when checks are running
-	cppcheckProgressIndicator = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 10);
-	context.subscriptions.push(cppcheckProgressIndicator);
-
-    // Severity option status bar item
-    severityOption = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 10);
-    severityOption.command = "cppcheck-official.selectMinSeverity";
+    // Register a command for writing the current findings to a report file
     context.subscriptions.push(
-        vscode.workspace.onDidChangeConfiguration(event => {
-            if (event.affectsConfiguration("cppcheck-official.selectMinSeverity")) {
-                updateMinSeverityOption();
-            }
-        })
-    );
+        vscode.commands.registerCommand(
+            "cppcheck-official.exportReport",
+            async () => {
+                const findings = collectReportFindings(shownDiagnosticCollection, diagnosticMetadataStore);
+                if (findings.length === 0) {
+                    vscode.window.showInformationMessage('Cppcheck: There are no findings to export.');
+                    return;
+                }
 
-    // Call update function once at setup to set the UI text to the settings current value
-    updateMinSeverityOption();
+                const selection = await vscode.window.showQuickPick(
+                    [
+                        { label: "SARIF", description: "SARIF 2.1.0, supported by most code review tools", value: "sarif" as ReportFormat, extension: "sarif" },
+                        { label: "JSON", description: "Plain list of findings", value: "json" as ReportFormat, extension: "json" },
+                        { label: "HTML", description: "Standalone report for viewing in a browser", value: "html" as ReportFormat, extension: "html" }
+                    ],
+                    {
+                        title: "Export Cppcheck Report"
+                    }
+                );
+                if (!selection) {
+                    return;
+                }
 
-    function clearDiagnosticForDoc(doc: vscode.TextDocument): void {
-        // Any file who was warnings generated from (and only from) the closed doc have their diagnostics cleared
-        // NOTE: This includes the closed doc - its diagnostics will only be cleared if its warnings only come from analysis of it itself
-        for (const fileUri of Object.keys(fileRelationMap)) {
-            if (fileRelationMap[fileUri].has(doc.uri.toString())) {
-                if (fileRelationMap[fileUri].size <= 1) {
-                    diagnosticCollection.delete(vscode.Uri.parse(fileUri));
-                    fileRelationMap[fileUri].clear();
-                } else {
-                    fileRelationMap[fileUri].delete(doc.uri.toString());
+                // The report is saved in and versioned against the workspace folder of the findings, which is asked for
+                // when the findings are spread over several folders
+                const findingFolders = new Map<string, vscode.WorkspaceFolder>();
+                shownDiagnosticCollection.forEach((uri) => {
+                    const folder = vscode.workspace.getWorkspaceFolder(uri);
+                    if (folder) {
+                        findingFolders.set(folder.uri.toString(), folder);
+                    }
+                });
+                const workspaceFolder = findingFolders.size > 1
+                    ? await vscode.window.showWorkspaceFolderPick({ placeHolder: "Workspace folder to export the report for" })
+                    : [...findingFolders.values()][0];
+                if (findingFolders.size > 1 && !workspaceFolder) {
+                    return;
+                }
+                const target = await vscode.window.showSaveDialog({
+                    defaultUri: workspaceFolder ? vscode.Uri.joinPath(workspaceFolder.uri, `cppcheck-report.${selection.extension}`) : undefined,
+                    filters: { [selection.label]: [selection.extension] },
+                    title: "Export Cppcheck Report"
+                });
+                if (!target) {
+                    return;
                 }
-            }
-        }
-        documentHashMemory[doc.fileName] = '';
-    }
 
-    async function handleDocument(document: vscode.TextDocument) {
-        // Only process C/C++ files.
-        if (!["c", "cpp"].includes(document.languageId)) {
-            // Not a C/C++ file, skip
-            return;
-        }
+                // cppcheck reports its version as 'Cppcheck 2.x', reports only want the number
+                const version = (await getCppcheckVersion(readCommandPath(workspaceFolder?.uri)))?.replace(/^Cppcheck\s+/i, '');
+                const report = createReport(selection.value, findings, { name: "Cppcheck", version });
+                await vscode.workspace.fs.writeFile(target, Buffer.from(report, 'utf8'));
+                logger.info(`Exported ${findings.length} findings to ${target.fsPath}`);
 
-        if ((Object.keys(documentHashMemory) as Array<string>).includes(document.fileName)) {
-            // Check file content against memory, if it has not changed since last check do early return
-            const newHash = getDocumentSha1(document);
-            const oldHash = documentHashMemory[document.fileName];
-            if (newHash === oldHash) {
-                return;
+                const openAction = 'Open';
+                const openSelection = await vscode.window.showInformationMessage(
+                    `Cppcheck: Exported ${findings.length} findings to ${vscode.workspace.asRelativePath(target)}.`,
+                    openAction
+                );
+                if (openSelection === openAction) {
+                    if (selection.value === "html") {
+                        await vscode.env.openExternal(target);
+                    } else {
+                        await vscode.window.showTextDocument(target);
+                    }
+                }
             }
-        }
+        )
+    );
+
+    // Register a command for selecting the severities of findings to show, which applies to the current findings at once
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            "cppcheck-official.selectSeverities",
+            async () => {
+                const scope = vscode.window.activeTextEditor?.document.uri;
+                // Severities set by the active profile take precedence over the setting changed here
+                const activeProfile = getActiveProfile(scope);
+                if (activeProfile?.severities) {
+                    vscode.window.showInformationMessage(`Cppcheck: The severities are set by the active profile ${activeProfile.name}, change them in the cppcheck-official.profiles setting.`);
+                    return;
+                }
+                const enabledSeverities = getEnabledSeverities(scope);
+                const selection = await vscode.window.showQuickPick(
+                    cppcheckSeverities.map((severity) => ({
+                        label: severity.charAt(0).toUpperCase() + severity.slice(1),
+                        picked: enabledSeverities.includes(severity),
+                        value: severity
+                    })),
+                    {
+                        title: "Select Cppcheck Severities to Show",
+                        canPickMany: true
+                    }
+                );
+                if (!selection) {
+                    return;
+                }
+
+                // Updating the setting re-filters the findings, see the configuration listener below
+                const config = vscode.workspace.getConfiguration("cppcheck-official", scope);
+                await config.update(
+                    "severities",
+                    selection.map((item) => item.value),
+                    getUpdateTarget(config, "severities")
+                );
+            }
+        )
+    );
+
+    // Register a command for showing or hiding inconclusive findings, which applies to the current findings at once
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            "cppcheck-official.toggleInconclusive",
+            async () => {
+                const scope = vscode.window.activeTextEditor?.document.uri;
+                const config = vscode.workspace.getConfiguration("cppcheck-official", scope);
+                await config.update("showInconclusive", !isInconclusiveShown(scope), getUpdateTarget(config, "showInconclusive"));
+            }
+        )
+    );
+
+    // Register a command for selecting the profile that analyses are run with
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            "cppcheck-official.selectProfile",
+            async () => {
+                const scope = vscode.window.activeTextEditor?.document.uri;
+                const activeProfile = getActiveProfile(scope);
+                const selection = await vscode.window.showQuickPick(
+                    [
+                        {
+                            label: "Default",
+                            description: activeProfile ? "" : "active",
+                            detail: "The regular cppcheck-official settings",
+                            value: ""
+                        },
+                        ...getProfiles(scope).map((profile) => ({
+                            label: profile.name,
+                            description: profile.name === activeProfile?.name ? "active" : "",
+                            detail: describeProfile(profile),
+                            value: profile.name
+                        }))
+                    ],
+                    {
+                        title: "Select Cppcheck Profile"
+                    }
+                );
+                if (!selection) {
+                    return;
+                }
+
+                // Updating the setting analyzes the visible documents again, see the configuration listener below
+                const config = vscode.workspace.getConfiguration("cppcheck-official", scope);
+                await config.update("activeProfile", selection.value, getUpdateTarget(config, "activeProfile"));
+            }
+        ),
+        vscode.commands.registerCommand(
+            "cppcheck-official.analyzeWithProfile",
+            async () => {
+                const editor = vscode.window.activeTextEditor;
+                const activeProfile = getActiveProfile(editor?.document.uri);
+                const profiles = getProfiles(editor?.document.uri).filter((profile) => profile.name !== activeProfile?.name);
+                if (profiles.length === 0) {
+                    vscode.window.showInformationMessage('Cppcheck: There are no other profiles, add them in the cppcheck-official.profiles setting.');
+                    return;
+                }
+                const profile = await vscode.window.showQuickPick(
+                    // The findings are shown with the severities of the active profile, so those of the picked profile are left out
+                    profiles.map((p) => ({ label: p.name, detail: describeProfile({ ...p, severities: undefined }), profile: p })),
+                    { title: "Analyze Once with Cppcheck Profile" }
+                );
+                if (!profile) {
+                    return;
+                }
+                const target = await vscode.window.showQuickPick(
+                    [
+                        ...(editor && ["c", "cpp"].includes(editor.document.languageId) ? [{ label: "Current File", workspace: false }] : []),
+                        { label: "Workspace", workspace: true }
+                    ],
+                    { title: `Analyze with Profile ${profile.label}` }
+                );
+                if (!target) {
+                    return;
+                }
+                // The results are replaced by those of the active profile when the files are analyzed again
+                if (target.workspace) {
+                    await analyzeWorkspaceFolders(false, profile.label);
+                } else if (editor) {
+                    delete documentHashMemory[editor.document.fileName];
+                    await handleDocument(editor.document, profile.profile);
+                    // The one-off results are not remembered, so that the active profile analyzes the document again
+                    delete documentHashMemory[editor.document.fileName];
+                }
+            }
+        )
+    );
+
+    // ProgressIndicator status bar item to show when checks are running
+	cppcheckProgressIndicator = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 10);
+	context.subscriptions.push(cppcheckProgressIndicator);
+
+    // Severity option status bar item
+    severityOption = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 10);
+    severityOption.command = "cppcheck-official.selectSeverities";
+    // Profile option status bar item, next to the severity option
+    profileOption = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 11);
+    profileOption.command = "cppcheck-official.selectProfile";
+    // Inconclusive findings option status bar item, next to the severity option
+    inconclusiveOption = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 9);
+    inconclusiveOption.command = "cppcheck-official.toggleInconclusive";
+    context.subscriptions.push(
+        profileOption,
+        inconclusiveOption,
+        vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration("cppcheck-official.severityMap")) {
+                // Diagnostics are updated in place, with the severity reported by cppcheck kept in their metadata
+                diagnosticCollection.forEach((uri, diagnostics) => {
+                    for (const diagnostic of diagnostics) {
+                        const metadata = diagnosticMetadataStore.get(diagnostic);
+                        if (metadata && !isUnmatchedSuppressionDiagnostic(diagnostic)) {
+                            diagnostic.severity = getEditorSeverity(metadata.cppcheckSeverity, uri, metadata.inconclusive);
+                        }
+                    }
+                });
+            }
+            // The active profile may set the severities too
+            if (event.affectsConfiguration("cppcheck-official.severities")
+                || event.affectsConfiguration("cppcheck-official.minSeverity")
+                || event.affectsConfiguration("cppcheck-official.severityMap")
+                || event.affectsConfiguration("cppcheck-official.profiles")
+                || event.affectsConfiguration("cppcheck-official.activeProfile")) {
+                diagnosticCollection.refresh();
+                updateSeverityOption();
+            }
+            if (event.affectsConfiguration("cppcheck-official.profiles")
+                || event.affectsConfiguration("cppcheck-official.activeProfile")) {
+                updateProfileOption();
+            }
+            if (event.affectsConfiguration("cppcheck-official.showInconclusive")) {
+                diagnosticCollection.refresh();
+            }
+            if (event.affectsConfiguration("cppcheck-official.inconclusive")
+                || event.affectsConfiguration("cppcheck-official.showInconclusive")) {
+                updateInconclusiveOption();
+            }
+        }),
+        // The enabled severities may differ between workspace folders
+        vscode.window.onDidChangeActiveTextEditor(() => {
+            updateSeverityOption();
+            updateInconclusiveOption();
+            updateProfileOption();
+        })
+    );
+
+    // Call update function once at setup to set the UI text to the settings current value
+    updateSeverityOption();
+    updateInconclusiveOption();
+    updateProfileOption();
+
+    function clearDiagnosticForDoc(doc: vscode.TextDocument): void {
+        // Any file who was warnings generated from (and only from) the closed doc have their diagnostics cleared
+        // NOTE: This includes the closed doc - its diagnostics will only be cleared if its warnings only come from analysis of it itself
+        for (const fileUri of Object.keys(fileRelationMap)) {
+            if (fileRelationMap[fileUri].has(doc.uri.toString())) {
+                if (fileRelationMap[fileUri].size <= 1) {
+                    diagnosticCollection.delete(vscode.Uri.parse(fileUri));
+                    fileRelationMap[fileUri].clear();
+                } else {
+                    fileRelationMap[fileUri].delete(doc.uri.toString());
+                }
+            }
+        }
+        documentHashMemory[doc.fileName] = '';
+    }
+
+    // Documents are analyzed with the active profile, unless another profile is given for a one-off analysis
+    async function handleDocument(document: vscode.TextDocument, profile?: AnalysisProfile) {
+        // Only process C/C++ files.
+        if (!["c", "cpp"].includes(document.languageId)) {
+            // Not a C/C++ file, skip
+            return;
+        }
+
+        if ((Object.keys(documentHashMemory) as Array<string>).includes(document.fileName)) {
+            // Check file content against memory, if it has not changed since last check do early return
+            const newHash = getDocumentSha1(document);
+            const oldHash = documentHashMemory[document.fileName];
+            if (newHash === oldHash) {
+                return;
+            }
+        }
 
         // Check if the document is visible in any editor
         const isVisible = vscode.window.visibleTextEditors.some(editor =>
@@ -380,29 +1227,11 @@ export async function activate(context: vscode.ExtensionContext) {
             return;
         }
 
-        const config = vscode.workspace.getConfiguration();
-        const isEnabled = config.get<boolean>("cppcheck-official.enable", true);
-        const minSevString = config.get<string>("cppcheck-official.minSeverity", "info");
-        const userPath = config.get<string>("cppcheck-official.path")?.trim() || "";
-        const commandPath = userPath ? resolvePath(userPath) : "cppcheck";
-
-        var  args = config.get<string>("cppcheck-official.arguments", "");
-        // If user enter arguments as array we parse them into space separated string format
-        if (args.startsWith("[") && args.endsWith("]")) {
-            args = args.replaceAll("[", "").replaceAll("]", "").replaceAll(",", " ");
-        }
-        
-        var processedArgs = '';
-        // If argument field contains command to run script we do so here
-        if (args.includes('@(')) {
-            const scriptCommand = args.split("@(")[1].split(")")[0];
-            const scriptOutput = await runCommand(scriptCommand);
-            // We expect that the script output that is to be used as arguments will be wrapped with ${}
-            const scriptOutputTrimmed = scriptOutput.split("@(")[1].split(")")[0];
-            processedArgs = args.split("@(")[0] + scriptOutputTrimmed + args.split(")")?.[1];
-        } else {
-            processedArgs = args;
+        const settings = await readAnalysisSettings(document.uri, profile);
+        if (!settings) {
+            return;
         }
+        const { isEnabled, runOn, commandPath, processedArgs, analysisScope, gitBaseRef } = settings;
 
         // If disabled, clear any existing diagnostics for this doc.
         if (!isEnabled) {
@@ -410,29 +1239,145 @@ export async function activate(context: vscode.ExtensionContext) {
             return;
         }
 
-        // Check if cppcheck is available
-        cp.exec(`"${commandPath}" --version`, (error) => {
-            if (error) {
-                vscode.window.showErrorMessage(
-                    `Cppcheck: Could not find or run '${commandPath}'. ` +
-                    `Please install cppcheck or set 'cppcheck-official.path' correctly.`
+        // A copy of the buffer cannot be analyzed with the defines and include paths of a project file, so with a project
+        // unsaved changes are left for the analysis of the file when it is saved, as with runOn 'save'
+        const usesProjectFile = processedArgs.some((arg) => arg.startsWith('--project='));
+        if (runOn === "type" && document.isDirty && usesProjectFile) {
+            return;
+        }
+
+        checkCppcheckAvailable(commandPath);
+        checkPythonAvailable(processedArgs, document.uri);
+
+        // A new analysis of the document replaces any analysis of it that is still queued or running
+        await analysisScheduler.schedule(document.uri.toString(), (token) => {
+            // In 'type' mode unsaved changes are analyzed through a temporary copy of the buffer
+            if (runOn === "type" && document.isDirty) {
+                return runCppcheckOnBufferXML(
+                    document,
+                    commandPath,
+                    processedArgs,
+                    diagnosticCollection,
+                    createFindingFilter(analysisScope, gitBaseRef),
+                    token
                 );
-                return;
             }
+            return runCppcheckOnFileXML(
+                document,
+                commandPath,
+                processedArgs,
+                diagnosticCollection,
+                createFindingFilter(analysisScope, gitBaseRef),
+                token
+            );
         });
+    }
 
-        await runCppcheckOnFileXML(
-            document,
-            commandPath,
-            processedArgs,
-            minSevString,
-            diagnosticCollection
+    // Folders are analyzed with their active profile, unless the name of another profile is given for a one-off analysis
+    async function analyzeWorkspaceFolders(changedFilesOnly: boolean, profileName?: string): Promise<void> {
+        const folders = vscode.workspace.workspaceFolders ?? [];
+        if (folders.length === 0) {
+            vscode.window.showInformationMessage('Cppcheck: Open a folder or workspace to analyze it.');
+            return;
+        }
+
+        await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: (changedFilesOnly ? "Cppcheck: Analyzing changed files" : "Cppcheck: Analyzing workspace")
+                    + (profileName !== undefined ? ` with profile ${profileName}` : ""),
+                cancellable: true
+            },
+            async (progress, token) => {
+                // Diagnostics from a previous workspace analysis are replaced by the results of this one
+                clearWorkspaceAnalysisDiagnostics(diagnosticCollection);
+
+                let analyzedFolders = 0;
+                // Each workspace folder is analyzed with its own settings
+                for (const folder of folders) {
+                    if (token.isCancellationRequested) {
+                        break;
+                    }
+                    const profile = profileName !== undefined ? findProfile(profileName, folder.uri) : getActiveProfile(folder.uri);
+                    if (profileName !== undefined && !profile) {
+                        logger.info(`Profile '${profileName}' is not defined for ${folder.name}, folder skipped`);
+                        continue;
+                    }
+                    const settings = await readAnalysisSettings(folder.uri, profile);
+                    if (!settings?.isEnabled) {
+                        continue;
+                    }
+                    const { commandPath, processedArgs, analysisScope, gitBaseRef } = settings;
+
+                    let files: string[] | undefined;
+                    if (changedFilesOnly) {
+                        const folderPrefix = folder.uri.fsPath + path.sep;
+                        files = (await new GitChanges(gitBaseRef, logger).getChangedFiles(folder.uri.fsPath))
+                            .filter((file) => file.startsWith(folderPrefix) && sourceFilePattern.test(file));
+                        if (files.length === 0) {
+                            logger.info(`No C/C++ source files changed relative to '${gitBaseRef}' in ${folder.name}`);
+                            continue;
+                        }
+                    }
+                    analyzedFolders++;
+
+                    checkCppcheckAvailable(commandPath);
+                    checkPythonAvailable(processedArgs, folder.uri);
+
+                    await analysisScheduler.schedule(
+                        `${workspaceAnalysisSource}:${folder.uri.toString()}`,
+                        (jobToken) => runCppcheckOnWorkspaceXML(
+                            folder,
+                            commandPath,
+                            processedArgs,
+                            diagnosticCollection,
+                            createFindingFilter(analysisScope, gitBaseRef),
+                            progress,
+                            1 / folders.length,
+                            jobToken,
+                            files
+                        ),
+                        token
+                    );
+                }
+                if (changedFilesOnly && analyzedFolders === 0 && !token.isCancellationRequested) {
+                    vscode.window.showInformationMessage('Cppcheck: No changed C/C++ source files found.');
+                }
+            }
         );
     }
 
+    // Register commands for analyzing every C/C++ file in the workspace, or every changed one, not only the ones open in an editor
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            "cppcheck-official.analyzeWorkspace",
+            () => analyzeWorkspaceFolders(false)
+        ),
+        vscode.commands.registerCommand(
+            "cppcheck-official.analyzeChangedFiles",
+            () => analyzeWorkspaceFolders(true)
+        )
+    );
+
     // Listen for file saves.
     vscode.workspace.onDidSaveTextDocument(handleDocument, null, context.subscriptions);
 
+    // Run cppcheck on unsaved buffer contents while typing, if enabled
+    vscode.workspace.onDidChangeTextDocument(e => {
+        if (e.contentChanges.length === 0 || !["c", "cpp"].includes(e.document.languageId)) {
+            return;
+        }
+        if (vscode.workspace.getConfiguration("cppcheck-official", e.document.uri).get<string>("runOn", "save") !== "type") {
+            return;
+        }
+        const key = e.document.uri.toString();
+        clearTimeout(bufferAnalysisTimers.get(key));
+        bufferAnalysisTimers.set(key, setTimeout(() => {
+            bufferAnalysisTimers.delete(key);
+            handleDocument(e.document);
+        }, bufferAnalysisDelay));
+    }, null, context.subscriptions);
+
     // Run cppcheck when a file is opened
     vscode.workspace.onDidOpenTextDocument(handleDocument, null, context.subscriptions);
 
@@ -478,13 +1423,270 @@ export async function activate(context: vscode.ExtensionContext) {
         }
     });
 
+    function reanalyzeVisibleDocuments(): void {
+        // Forget content hashes so that unchanged documents are analyzed again
+        for (const editor of vscode.window.visibleTextEditors) {
+            delete documentHashMemory[editor.document.fileName];
+            handleDocument(editor.document);
+        }
+    }
+
+    async function offerCompileCommands(): Promise<void> {
+        // Offer compile_commands.json found in a workspace folder that has no project set up yet
+        for (const folder of vscode.workspace.workspaceFolders ?? []) {
+            const folderKey = folder.uri.toString();
+            const dismissedFolders = context.workspaceState.get<string[]>(compileCommandsDismissedKey, []);
+            if (compileCommandsOffered.has(folderKey) || dismissedFolders.includes(folderKey)) {
+                continue;
+            }
+            const config = vscode.workspace.getConfiguration("cppcheck-official", folder.uri);
+            const args = [
+                ...tokenizeArguments(config.get<string>("arguments", "")),
+                ...config.get<string[]>("argumentList", []),
+            ];
+            // Scripts may generate the project argument themselves
+            if (config.get<string>("project", "").trim() || args.some((arg) => arg.startsWith('--project=') || arg.includes('@('))) {
+                continue;
+            }
+            const compileCommandsPath = await compileCommandsLocator.find(folder);
+            if (!compileCommandsPath) {
+                continue;
+            }
+
+            compileCommandsOffered.add(folderKey);
+            const selection = await vscode.window.showInformationMessage(
+                `Cppcheck: Found ${vscode.workspace.asRelativePath(compileCommandsPath)}. Use it as project for analysis?`,
+                'Use compile_commands.json',
+                "Don't ask again"
+            );
+            if (selection === 'Use compile_commands.json') {
+                // Changing the setting triggers a new analysis of the visible documents
+                await config.update("project", "auto", vscode.ConfigurationTarget.WorkspaceFolder);
+            } else if (selection === "Don't ask again") {
+                await context.workspaceState.update(compileCommandsDismissedKey, [...dismissedFolders, folderKey]);
+            }
+        }
+    }
+
+    // Register a command for adding the current findings to the baseline, after which they are no longer shown
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            'cppcheck-official.createBaseline',
+            async () => {
+                // Each workspace folder may have its own baseline, folders without one get the default baseline file
+                const entriesByBaseline = new Map<string, BaselineEntry[]>();
+                const foldersWithoutBaseline = new Set<vscode.WorkspaceFolder>();
+                diagnosticCollection.forEach((uri, diagnostics) => {
+                    const folder = vscode.workspace.getWorkspaceFolder(uri);
+                    if (!folder) {
+                        return;
+                    }
+                    let baselinePath = baselineStore.getBaselinePath(uri);
+                    if (!baselinePath) {
+                        baselinePath = path.join(folder.uri.fsPath, defaultBaselineFileName);
+                        foldersWithoutBaseline.add(folder);
+                    }
+                    const entries = entriesByBaseline.get(baselinePath) ?? [];
+                    for (const diagnostic of diagnostics) {
+                        const code = typeof(diagnostic.code) === "object" && diagnostic.code !== null ? String(diagnostic.code.value) : String(diagnostic.code);
+                        // Unmatched suppressions are fixed by removing the suppression, not accepted as existing findings
+                        if (criticalWarningTypes.includes(code) || isUnmatchedSuppressionDiagnostic(diagnostic)) {
+                            continue;
+                        }
+                        const metadata = diagnosticMetadataStore.get(diagnostic);
+                        entries.push(createBaselineEntry(uri, code, metadata?.symbolName || undefined, metadata?.mainLocLine ?? '', metadata?.mainLocOccurrence));
+                    }
+                    entriesByBaseline.set(baselinePath, entries);
+                });
+
+                let addedCount = 0;
+                for (const [baselinePath, entries] of entriesByBaseline) {
+                    // Findings already in the baseline are not shown anymore, so they are kept from the existing file
+                    const existingEntries = await baselineStore.read(baselinePath);
+                    const fingerprints = new Set(existingEntries.map((entry) => entry.fingerprint));
+                    const newEntries = entries.filter((entry) => {
+                        const isNew = !fingerprints.has(entry.fingerprint);
+                        fingerprints.add(entry.fingerprint);
+                        return isNew;
+                    });
+                    addedCount += newEntries.length;
+                    await baselineStore.write(baselinePath, [...existingEntries, ...newEntries]);
+                    logger.info(`Added ${newEntries.length} findings to baseline ${baselinePath}`);
+                }
+                if (entriesByBaseline.size === 0) {
+                    vscode.window.showInformationMessage('Cppcheck: There are no findings to add to a baseline.');
+                    return;
+                }
+
+                for (const folder of foldersWithoutBaseline) {
+                    await vscode.workspace
+                        .getConfiguration("cppcheck-official", folder.uri)
+                        .update("baseline", defaultBaselineFileName, vscode.ConfigurationTarget.WorkspaceFolder);
+                }
+                // Every finding shown is in the baseline now, including those of files that are not open
+                diagnosticCollection.forEach((uri, diagnostics, collection) => {
+                    collection.set(uri, diagnostics.filter((diagnostic) => {
+                        const code = typeof(diagnostic.code) === "object" && diagnostic.code !== null ? diagnostic.code.value : diagnostic.code;
+                        return criticalWarningTypes.includes(String(code))
+                            || isUnmatchedSuppressionDiagnostic(diagnostic)
+                            || !vscode.workspace.getWorkspaceFolder(uri);
+                    }));
+                });
+                vscode.window.showInformationMessage(
+                    `Cppcheck: Added ${addedCount} findings to the baseline. Only new findings are shown from now on.`
+                );
+            }
+        )
+    );
+
+    // Analyze again when the baseline changes, which may make findings appear or disappear
+    context.subscriptions.push(
+        baselineStore,
+        baselineStore.onDidChange(() => reanalyzeVisibleDocuments()),
+        vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration("cppcheck-official.baseline")) {
+                reanalyzeVisibleDocuments();
+            }
+        })
+    );
+
+    // Register a command for listing hidden warnings and warning types, and showing selected ones again
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            'cppcheck-official.manageHiddenWarnings',
+            async () => {
+                const hiddenTypes = hiddenWarningStore.getTypes();
+                const hiddenWarnings = hiddenWarningStore.getWarnings();
+                if (hiddenTypes.length === 0 && hiddenWarnings.length === 0) {
+                    vscode.window.showInformationMessage('Cppcheck: There are no hidden warnings.');
+                    return;
+                }
+
+                type HiddenItem = vscode.QuickPickItem & { checkerId?: string, fingerprint?: string };
+                const items: HiddenItem[] = [];
+                if (hiddenTypes.length > 0) {
+                    items.push(
+                        { label: 'Warning types', kind: vscode.QuickPickItemKind.Separator },
+                        ...hiddenTypes.map((checkerId) => ({ label: checkerId, description: 'All warnings of this type', checkerId }))
+                    );
+                }
+                if (hiddenWarnings.length > 0) {
+                    items.push(
+                        { label: 'Warnings', kind: vscode.QuickPickItemKind.Separator },
+                        ...hiddenWarnings.map((warning) => ({
+                            label: warning.checkerId,
+                            description: `${warning.file}:${warning.line}`,
+                            detail: warning.message,
+                            fingerprint: warning.fingerprint
+                        }))
+                    );
+                }
+
+                const restoreAllItem: HiddenItem = { label: '$(eye) Restore all hidden warnings' };
+                const selection = await vscode.window.showQuickPick([restoreAllItem, ...items], {
+                    title: 'Manage Hidden Cppcheck Warnings',
+                    placeHolder: 'Select the warnings to show again',
+                    canPickMany: true,
+                    matchOnDescription: true,
+                    matchOnDetail: true
+                });
+                if (!selection || selection.length === 0) {
+                    return;
+                }
+
+                if (selection.includes(restoreAllItem)) {
+                    await hiddenWarningStore.restoreAll();
+                } else {
+                    await hiddenWarningStore.restore(
+                        selection.flatMap((item) => item.fingerprint ? [item.fingerprint] : []),
+                        selection.flatMap((item) => item.checkerId ? [item.checkerId] : [])
+                    );
+                }
+                // Restored warnings appear again once the documents have been analyzed
+                reanalyzeVisibleDocuments();
+            }
+        )
+    );
+
+    // Register a command for dropping all cached results and analyzing the visible documents again
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            'cppcheck-official.clearCache',
+            async () => {
+                await resultCache.clear();
+                documentHashMemory = {};
+                logger.info('Cleared cached analysis results');
+                reanalyzeVisibleDocuments();
+            }
+        )
+    );
+
+    // Analyze documents again when a header they include changes, since that may change their results
+    const headerWatcher = vscode.workspace.createFileSystemWatcher(headerFileGlob);
+    const handleHeaderChange = (uri: vscode.Uri) => {
+        for (const editor of vscode.window.visibleTextEditors) {
+            if (resultCache.dependsOn(editor.document.fileName, uri.fsPath)) {
+                delete documentHashMemory[editor.document.fileName];
+                handleDocument(editor.document);
+            }
+        }
+    };
+    context.subscriptions.push(
+        headerWatcher,
+        headerWatcher.onDidChange(handleHeaderChange),
+        headerWatcher.onDidCreate(handleHeaderChange),
+        headerWatcher.onDidDelete(handleHeaderChange)
+    );
+
+    // Find compile_commands.json, and analyze again whenever the one in use changes
+    const compileCommandsOffered = new Set<string>();
+    const compileCommandsDismissedKey = 'cppcheck-official.compileCommandsDismissed';
+    compileCommandsLocator = new CompileCommandsLocator(logger);
+    context.subscriptions.push(
+        compileCommandsLocator,
+        compileCommandsLocator.onDidChange(async (changedFile) => {
+            // Builds regenerate compile_commands.json files, only the analyses using them are run again
+            // Each folder is checked once, before any of its documents looks up its compile_commands.json again
+            const affectedFolders = new Map<string, boolean>();
+            for (const editor of vscode.window.visibleTextEditors) {
+                const folder = vscode.workspace.getWorkspaceFolder(editor.document.uri);
+                if (!folder) {
+                    continue;
+                }
+                const key = folder.uri.toString();
+                if (!affectedFolders.has(key)) {
+                    affectedFolders.set(key, await usesCompileCommands(folder, changedFile));
+                }
+                if (affectedFolders.get(key)) {
+                    delete documentHashMemory[editor.document.fileName];
+                    handleDocument(editor.document);
+                }
+            }
+            offerCompileCommands();
+        }),
+        vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration("cppcheck-official.project")
+                || event.affectsConfiguration("cppcheck-official.scope")
+                || event.affectsConfiguration("cppcheck-official.gitBaseRef")
+                || event.affectsConfiguration("cppcheck-official.profiles")
+                || event.affectsConfiguration("cppcheck-official.activeProfile")
+                || event.affectsConfiguration("cppcheck-official.addons")
+                || event.affectsConfiguration("cppcheck-official.addonConfigs")
+                || event.affectsConfiguration("cppcheck-official.pythonPath")
+                || event.affectsConfiguration("cppcheck-official.misraRuleTexts")) {
+                reanalyzeVisibleDocuments();
+            }
+        })
+    );
+    offerCompileCommands();
+
     // Run cppcheck for all open files when the workspace is opened
     vscode.workspace.onDidChangeWorkspaceFolders(() => {
-        vscode.workspace.textDocuments.forEach(handleDocument);
+        vscode.workspace.textDocuments.forEach((document) => handleDocument(document));
     }, null, context.subscriptions);
 
     // Run cppcheck for all open files at activation (for already opened workspaces)
-    vscode.workspace.textDocuments.forEach(handleDocument);
+    vscode.workspace.textDocuments.forEach((document) => handleDocument(document));
 
     // Clean up diagnostics when a file is closed
     vscode.workspace.onDidCloseTextDocument((document: vscode.TextDocument) => {
@@ -495,34 +1697,26 @@ export async function activate(context: vscode.ExtensionContext) {
 async function runCppcheckOnFileXML(
     document: vscode.TextDocument,
     commandPath: string,
-    processedArgs: string,
-    minSevString: string,
-    diagnosticCollection: vscode.DiagnosticCollection
+    processedArgs: string[],
+    diagnosticCollection: vscode.DiagnosticCollection,
+    findingFilter: FindingFilter | undefined,
+    token: vscode.CancellationToken,
+    bufferFilePath?: string
 ): Promise<void> {
-    checksRunning = true;
-    updateProgressIndicator();
-
     // Clear existing diagnostics for this file
     diagnosticCollection.delete(document.uri);
 
     // Replace backslashes (used in paths in Windows environment)
-    const filePath = document.fileName.replaceAll('\\', '/');
-    const minSevNum = parseMinSeverity(minSevString);
+    // When analyzing an unsaved buffer, cppcheck is pointed at the temporary copy instead of the document on disk
+    const filePath = (bufferFilePath ?? document.fileName).replaceAll('\\', '/');
 
-    // Resolve paths for arguments where applicable
-    const argsParsed = processedArgs.split(" ").map((arg) => {
-        let cleanedArg = arg.replaceAll("\"","");
-        const isPathArgument = pathVariableArgs.some(a => cleanedArg.startsWith(a));
-        // Some arguments such as addon may be either a path or the name of a built in addon
-        if (isPathArgument && looksLikePath(cleanedArg)) {
-            const splitArg = cleanedArg.split('=');
-            return `${splitArg[0]}=${resolvePath(splitArg[1])}`;
-        }
-        return arg;
-    });
+    const argsParsed = resolvePathArguments(processedArgs, document.uri);
 
     let usingProjectFile = false;
-    projectFileStore.clear();
+    // Buffer analyses run without the project file, which should still be available to code actions meanwhile
+    if (!bufferFilePath) {
+        suppressionTargetStore.update(document.uri, argsParsed);
+    }
 
     const args = [
         '--enable=all',
@@ -531,11 +1725,10 @@ async function runCppcheckOnFileXML(
         ...argsParsed,
     ].filter(Boolean);
 
-    if (processedArgs.includes("--project=")) {
+    const projectFilePath = findProjectFileArgument(argsParsed, document.uri);
+    if (projectFilePath) {
         usingProjectFile = true;
         args.push(`--file-filter=${filePath}`);
-        var projectFilePath = processedArgs.split('--project=')[1].split(' ')[0];
-        projectFileStore.setUri(vscode.Uri.file(projectFilePath));
     } else {
         args.push(
         '--suppress=unusedFunction',
@@ -544,192 +1737,514 @@ async function runCppcheckOnFileXML(
         args.push(filePath);
     }
 
-    let proc;
-    const cwd = findWorkspaceRoot();
-    proc = cp.spawn(commandPath, args, {
+    // Results of a cancelled analysis are outdated, so they are not published
+    const diagnosticBatch = createDiagnosticBatch(document.uri.toString(), diagnosticCollection, token);
+    const handleError = async (e: CppcheckXmlError) => {
+        const isCriticalError = criticalWarningTypes.includes(e.$.id);
+        const locations = e.location || [];
+        if (!locations.length) {
+            return;
+        }
+
+        const mainLoc = locations[locations.length - 1].$;
+        // If main location is not current file, we are not using a project file and warning is not critical then skip displaying warning
+        if (!isCriticalError && usingProjectFile && !filePath.endsWith(mainLoc.file)) {
+            return;
+        }
+
+        const parsedDiagnostic = await createDiagnosticFromError(e, document, bufferFilePath);
+        if (parsedDiagnostic && (isCriticalError || !findingFilter || await findingFilter(parsedDiagnostic.uri, parsedDiagnostic.diagnostic))) {
+            diagnosticBatch.add(parsedDiagnostic.uri, parsedDiagnostic.diagnostic);
+        }
+    };
+
+    const cwd = findWorkspaceRoot(document.uri);
+    // The hash is of the content that is analyzed, which is the file on disk unless the buffer is analyzed
+    const hashedContentOfFile = bufferFilePath || !document.isDirty
+        ? getDocumentSha1(document)
+        : await getFileSha1(document.fileName).catch(() => getDocumentSha1(document));
+    // Buffer analyses are not cached, their results are replaced as soon as the document is saved
+    const cppcheckVersion = bufferFilePath ? undefined : await getCppcheckVersion(commandPath);
+    const cacheConfiguration = [cppcheckVersion ?? '', cwd, ...args];
+    const cachedErrors = cppcheckVersion
+        ? await resultCache.get(document.fileName, hashedContentOfFile, cacheConfiguration)
+        : undefined;
+    if (cachedErrors) {
+        logger.debug(`Using cached results for ${document.fileName}`);
+        for (const e of cachedErrors) {
+            await handleError(e);
+        }
+        diagnosticBatch.flush();
+        documentHashMemory[document.fileName] = hashedContentOfFile;
+        unmatchedSuppressionStore.update(document.uri.toString(), cachedErrors, cwd);
+        return;
+    }
+
+    // The errors are kept as reported by cppcheck, so that restoring them from the cache applies the current filters
+    const errors: CppcheckXmlError[] = [];
+    const code = await spawnCppcheck(
+        commandPath,
+        args,
         cwd,
-    });
+        async (e) => {
+            errors.push(e);
+            await handleError(e);
+        },
+        undefined,
+        token
+    );
+    diagnosticBatch.flush();
+
+    // If checks have run without error, save hashed document content to memory
+    // Buffer analyses are not remembered, so that saving the document always runs a regular analysis
+    if (code === 0 && !bufferFilePath && !token.isCancellationRequested) {
+        documentHashMemory[document.fileName] = hashedContentOfFile;
+        // Buffer analyses report the temporary copy as location, so only regular analyses update unmatched suppressions
+        unmatchedSuppressionStore.update(document.uri.toString(), errors, cwd);
+        if (cppcheckVersion) {
+            await resultCache.set(document.fileName, hashedContentOfFile, cacheConfiguration, errors, args, cwd);
+        }
+    }
+}
 
-    // if spawn fails (e.g. ENOENT or permission denied)
-    proc.on("error", (err) => {
-        console.error("Failed to start cppcheck:", err);
-        vscode.window.showErrorMessage(`Cppcheck failed to start: ${err.message}`);
-    });
+async function runCppcheckOnBufferXML(
+    document: vscode.TextDocument,
+    commandPath: string,
+    processedArgs: string[],
+    diagnosticCollection: vscode.DiagnosticCollection,
+    findingFilter: FindingFilter | undefined,
+    token: vscode.CancellationToken
+): Promise<void> {
+    // The copy keeps the original file name so that cppcheck picks the same language, in a directory unique to this run
+    const bufferDirectory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'cppcheck-official-'));
+    const bufferFilePath = path.join(bufferDirectory, path.basename(document.fileName));
+    await fs.promises.writeFile(bufferFilePath, document.getText(), 'utf8');
 
-    let xmlOutput = "";
-    let out = "";
-    proc.stderr.on("data", d => xmlOutput += d.toString());
-    proc.stdout.on("data", d => out += d.toString());
-    proc.on("close", code => {
-        if (code && code > 0) {
-            // Non-zero code means an error has occured
-            let errorMessage = `Cppcheck failed with code ${code} (unknown error)`;
-            if (out.trim().length > 0) {
-                errorMessage = out.trim();
-            }
-            errorMessage = `${errorMessage}, Command: ${commandPath} ${args.join(' ')}`;
-            vscode.window.showErrorMessage(errorMessage);
-        }
-        const parser = new xml2js.Parser({ explicitArray: true });
-        parser.parseString(xmlOutput, async (err, result) => {
-            if (err) {
-                console.error("XML parse error:", err);
-                return;
-            }
+    // Buffers are only analyzed without a project file, see handleDocument.
+    // Includes relative to the original file are preserved by adding its directory as include path.
+    const bufferArgs = processedArgs.concat(`-I${path.dirname(document.fileName)}`);
 
-            const errors = result.results?.errors?.[0]?.error || [];
-            const diagnostics: Record<string, vscode.Diagnostic[]> = {};
-            for (const e of errors) {
-                const isCriticalError = criticalWarningTypes.includes(e.$.id);
-                const locations = e.location || [];
-                if (!locations.length) {
-                    continue;
-                }
+    try {
+        await runCppcheckOnFileXML(
+            document,
+            commandPath,
+            bufferArgs,
+            diagnosticCollection,
+            findingFilter,
+            token,
+            bufferFilePath
+        );
+    } finally {
+        fs.promises.rm(bufferDirectory, { recursive: true, force: true }).catch(() => {});
+    }
+}
 
-                const mainLoc = locations[locations.length - 1].$;
-                // If main location is not current file, we are not using a project file and warning is not critical then skip displaying warning
-                if (!isCriticalError && usingProjectFile && !filePath.endsWith(mainLoc.file)) {
-                    continue;
-                }
+async function runCppcheckOnWorkspaceXML(
+    folder: vscode.WorkspaceFolder,
+    commandPath: string,
+    processedArgs: string[],
+    diagnosticCollection: vscode.DiagnosticCollection,
+    findingFilter: FindingFilter | undefined,
+    progress: vscode.Progress<{ message?: string; increment?: number }>,
+    progressShare: number,
+    token: vscode.CancellationToken,
+    // Only these files are analyzed if given, instead of all source files of the folder
+    files?: string[]
+): Promise<void> {
+    const argsParsed = resolvePathArguments(processedArgs, folder.uri);
 
-                let mainLocDocument : vscode.TextDocument | undefined;
-                try {
-                    mainLocDocument = await vscode.workspace.openTextDocument(mainLoc.file);
-                } catch {
-                    // do nothing
-                }
+    const args = [
+        '--enable=all',
+        '--inline-suppr',
+        '--xml',
+        ...argsParsed,
+    ].filter(Boolean);
 
-                // Cppcheck line number is 1-indexed, while VS Code uses 0-indexing
-                let line = Number(mainLoc.line) - 1;
-                // Invalid line number usually means non-analysis output 
-                if (isNaN(line) || line < 0 || line >= document.lineCount) {
-                    if (isCriticalError) {
-                        line = 0;
-                    } else {
-                        continue;
-                    }
-                }
+    suppressionTargetStore.update(folder.uri, argsParsed);
 
-                // Cppcheck col number is 1-indexed, while VS Code uses 0-indexing
-                let col = Number(mainLoc.column) - 1;
-                if (isNaN(col) || col < 0 || !mainLocDocument || col > mainLocDocument.lineAt(line).text.length) {
-                    col = 0;
-                }
+    let fileListPath: string | undefined;
+    const projectFilePath = findProjectFileArgument(argsParsed, folder.uri);
+    if (projectFilePath) {
+        // The project file decides which files are analyzed, unless limited to the given files
+        args.push(...(files ?? []).map((file) => `--file-filter=${file}`));
+    } else {
+        const sourceFiles = files ?? (await vscode.workspace.findFiles(new vscode.RelativePattern(folder, workspaceSourceFileGlob), undefined, undefined, token))
+            .map((file) => file.fsPath);
+        if (token.isCancellationRequested) {
+            return;
+        }
+        if (sourceFiles.length === 0) {
+            vscode.window.showInformationMessage(`Cppcheck: No C/C++ source files found in workspace folder ${folder.name}.`);
+            return;
+        }
+        // The file list is handed to cppcheck through a file to stay clear of command line length limits
+        fileListPath = path.join(os.tmpdir(), `cppcheck-official-files-${process.pid}-${Date.now()}.txt`);
+        await fs.promises.writeFile(fileListPath, sourceFiles.join('\n'), 'utf8');
+        // Unlike single file analysis, whole program analysis gives meaningful unusedFunction results so it is not suppressed here
+        args.push(
+        '--suppress=missingInclude',
+        '--suppress=missingIncludeSystem',
+        `--file-list=${fileListPath}`);
+    }
 
-                const severity = parseSeverity(e.$.severity);
-                if (!isCriticalError && severityToNumber(severity) < minSevNum) {
-                    continue;
-                }
+    let reportedPercentage = 0;
+    const diagnosticBatch = createDiagnosticBatch(workspaceAnalysisSource, diagnosticCollection);
+    const errors: CppcheckXmlError[] = [];
+    await spawnCppcheck(
+        commandPath,
+        args,
+        folder.uri.fsPath,
+        async (e) => {
+            errors.push(e);
+            const parsedDiagnostic = await createDiagnosticFromError(e);
+            if (parsedDiagnostic && (criticalWarningTypes.includes(e.$.id) || !findingFilter || await findingFilter(parsedDiagnostic.uri, parsedDiagnostic.diagnostic))) {
+                diagnosticBatch.add(parsedDiagnostic.uri, parsedDiagnostic.diagnostic);
+            }
+        },
+        (line) => {
+            // Cppcheck reports progress on stdout, one line per checked file
+            const checkingMatch = /^Checking (.+?)(?: \.\.\.|:)/.exec(line);
+            if (checkingMatch) {
+                progress.report({ message: vscode.workspace.asRelativePath(checkingMatch[1]) });
+            }
+            const doneMatch = /^(\d+)\/(\d+) files checked/.exec(line);
+            if (doneMatch) {
+                const percentage = Math.floor(100 * progressShare * Number(doneMatch[1]) / Number(doneMatch[2]));
+                progress.report({ increment: percentage - reportedPercentage });
+                reportedPercentage = percentage;
+            }
+        },
+        token
+    );
+    // When cancelled, the findings published up to that point are kept
+    diagnosticBatch.flush();
+    if (!token.isCancellationRequested) {
+        unmatchedSuppressionStore.update(`${workspaceAnalysisSource}:${folder.uri.toString()}`, errors, folder.uri.fsPath);
+    }
 
-                const range = new vscode.Range(line, col, line, mainLocDocument ? mainLocDocument.lineAt(line).text.length : col);
-                const diagnostic = new vscode.Diagnostic(range, e.$.msg, severity);
-                diagnostic.source = "cppcheck";
-                // If we have a link to documentation, include it
-                diagnostic.code = documentationLinkMap[e.$.id] ? {
-                    value: e.$.id,
-                    target: vscode.Uri.parse(documentationLinkMap[e.$.id])
-                } : getPremiumCertLink(e.$.id) ? {
-                    value: e.$.id,
-                    target: vscode.Uri.parse(getPremiumCertLink(e.$.id))
-                } : e.$.id;
-
-                // If warning has a symbol we keep track of it
-                const symbolName = e.symbol?.[0] ?? '';
-                // Save line of code at main location if we can access it
-                const mainLocLine = mainLocDocument?.lineAt(line)?.text ?? '';
-                
-                diagnosticMetadataStore.set(diagnostic, {symbolName, mainLocLine});
-
-                // Related Information
-                const relatedInfos: vscode.DiagnosticRelatedInformation[] = [];
-                for (let i = 1; i <= locations.length; i++) {
-                    // Related information is ordered in reverse in XML object
-                    const loc = locations[locations.length - i].$;
-                    const msg = loc.info;
-                    const lLine = Number(loc.line) - 1;
-                    const lCol = Number(loc.col) - 1;
-
-                    if (msg === null || msg === undefined || isNaN(lLine) || lLine < 0 || lLine >= document.lineCount) {
-                        continue;
-                    }
+    if (fileListPath) {
+        fs.promises.unlink(fileListPath).catch(() => {});
+    }
+}
 
-                    var relatedDocument : vscode.TextDocument | undefined;
-                    try {
-                        relatedDocument = await vscode.workspace.openTextDocument(loc.file);
-                    } catch {
-                        // Do nothing
-                    }
-                    const relatedRange = new vscode.Range(
-                        lLine, lCol,
-                        lLine, relatedDocument ? relatedDocument.lineAt(lLine).text.length : lCol
-                    );
-                    relatedInfos.push(
-                        new vscode.DiagnosticRelatedInformation(
-                            new vscode.Location(relatedDocument ? relatedDocument.uri : vscode.Uri.file(''), relatedRange),
-                            msg
-                        )
-                    );
-                }
-                if (relatedInfos.length > 0) {
-                    diagnostic.relatedInformation = relatedInfos;
-                }
-                const diagnosticFile = mainLoc.file;
-                var diagnosticFileIsOpenDocument = diagnosticFile === document.fileName;
-                if (!diagnosticFile.includes('/')) {
-                    // If we do not have file path but only name we asume diagnosed file is open document if they share name
-                    if (document.fileName.endsWith(diagnosticFile)) {
-                        diagnosticFileIsOpenDocument = true;
-                    }
-                }
-                if (diagnosticFileIsOpenDocument) {
-                    const uri = document.uri.toString();
-                    if (diagnostics[uri] === null || diagnostics[uri] === undefined) {
-                        diagnostics[uri] = [];
-                    }
-                    diagnostics[uri].push(diagnostic);
-                } else {
-                    var relatedDocument : vscode.TextDocument | undefined;
-                    try {
-                        relatedDocument = await vscode.workspace.openTextDocument(mainLoc.file);
-                    } catch {
-                        // Do nothing
-                    }
-                    if (relatedDocument) {
-                        // Proceed if we are able to open the document
-                        const uri = relatedDocument.uri.toString();
-                        if (diagnostics[uri] === null || diagnostics[uri] === undefined) {
-                            diagnostics[uri] = [];
-                        }
-                        diagnostics[uri].push(diagnostic);
-                    }
-                }
+async function spawnCppcheck(
+    commandPath: string,
+    args: string[],
+    cwd: string,
+    onError: (e: CppcheckXmlError) => Promise<void>,
+    onStdoutLine?: (line: string) => void,
+    token?: vscode.CancellationToken
+): Promise<number | null> {
+    const commandLine = [commandPath, ...args].map((arg) => /\s/.test(arg) ? `"${arg}"` : arg).join(' ');
+    logger.info(`Running: ${commandLine}`);
+    logger.debug(`Working directory: ${cwd}`);
+    const startTime = Date.now();
+
+    const proc = cp.spawn(commandPath, args, {
+        cwd,
+    });
+    const cancellationListener = token?.onCancellationRequested(() => {
+        proc.kill();
+    });
+
+    let lastOutputLine = "";
+    let pendingOutputLine = "";
+    // Diagnostics are created one error at a time, in the order cppcheck reports them
+    let processing = Promise.resolve();
+    const xmlParser = new CppcheckXmlStreamParser(
+        (e) => {
+            processing = processing
+                .then(() => onError(e))
+                .catch((err) => logger.error(`Failed to create diagnostic for ${e.$.id}: ${err}`));
+        },
+        (err) => logger.error(`Failed to parse cppcheck XML output: ${err.message}`)
+    );
+    // The XML results are written to stderr, raw output is only logged on trace level
+    proc.stderr.setEncoding('utf8');
+    proc.stderr.on("data", (d: string) => {
+        logger.trace(d);
+        xmlParser.write(d);
+    });
+    proc.stdout.setEncoding('utf8');
+    proc.stdout.on("data", (d: string) => {
+        const lines = (pendingOutputLine + d).split(/\r?\n/);
+        pendingOutputLine = lines.pop() ?? "";
+        for (const line of lines) {
+            logger.debug(line);
+            if (line.trim().length > 0) {
+                lastOutputLine = line.trim();
             }
-            const sourceDocumentUri = document.uri.toString();
-            for (const uri of Object.keys(diagnostics)) {
-                var newDiagnostics = diagnostics[uri];
-                // If file has existing diagnostics from analyzing other files we do not want to overwrite those
-                const existingDiagnostics = diagnosticCollection.get(vscode.Uri.parse(uri));
-                if (existingDiagnostics) {
-                    newDiagnostics = diagnosticsUnion(newDiagnostics, existingDiagnostics.flat());
-                }
-                diagnosticCollection.set(vscode.Uri.parse(uri), newDiagnostics);
-                if (fileRelationMap[uri] === null ||fileRelationMap[uri] === undefined) {
-                    fileRelationMap[uri] = new Set;
-                }
-                // NOTE: uri can be the same as sourceDocumentUri
-                fileRelationMap[uri].add(sourceDocumentUri);
+            onStdoutLine?.(line);
+        }
+    });
+
+    return new Promise<number | null>((resolve) => {
+        // if spawn fails (e.g. ENOENT or permission denied)
+        proc.on("error", (err) => {
+            cancellationListener?.dispose();
+            logger.error(`Failed to start cppcheck: ${err.message}`);
+            showErrorWithLog(`Cppcheck failed to start: ${err.message}`);
+            resolve(null);
+        });
+        proc.on("close", code => {
+            cancellationListener?.dispose();
+            if (pendingOutputLine.trim().length > 0) {
+                logger.debug(pendingOutputLine);
+                lastOutputLine = pendingOutputLine.trim();
+            }
+            logger.info(`Cppcheck exited with code ${code} after ${Date.now() - startTime} ms`);
+            if (code && code > 0 && !token?.isCancellationRequested) {
+                // Non-zero code means an error has occured, the last line of output usually tells what went wrong
+                showErrorWithLog(`Cppcheck failed with code ${code}${lastOutputLine ? `: ${lastOutputLine}` : ''}`);
             }
+            xmlParser.end();
+            processing.then(() => resolve(code));
         });
+    });
+}
 
-        // If checks have run without error, save hashed document content to memory
-        if (!code) {
-            const hashedContentOfFile = getDocumentSha1(document);
-            documentHashMemory[document.fileName] = hashedContentOfFile;
+function resolvePathArguments(processedArgs: string[], scope?: vscode.Uri): string[] {
+    // Resolve paths for arguments where applicable
+    return processedArgs.map((arg) => {
+        const isPathArgument = pathVariableArgs.some(a => arg.startsWith(`${a}=`));
+        const separatorIndex = arg.indexOf('=');
+        const value = arg.slice(separatorIndex + 1);
+        // Some arguments such as addon may be either a path or the name of a built in addon
+        if (isPathArgument && looksLikePath(value)) {
+            return `${arg.slice(0, separatorIndex)}=${resolvePath(value, scope)}`;
         }
+        return arg;
     });
+}
+
+function findProjectFileArgument(args: string[], scope?: vscode.Uri): string | undefined {
+    const projectArg = args.find((arg) => arg.startsWith('--project='));
+    return projectArg ? resolvePath(projectArg.slice('--project='.length), scope) : undefined;
+}
+
+async function createDiagnosticFromError(
+    e: CppcheckXmlError,
+    document?: vscode.TextDocument,
+    bufferFilePath?: string
+): Promise<{ uri: vscode.Uri, diagnostic: vscode.Diagnostic } | undefined> {
+    const isCriticalError = criticalWarningTypes.includes(e.$.id);
+    const locations = e.location || [];
+    if (!locations.length) {
+        return undefined;
+    }
+
+    const mainLoc = locations[locations.length - 1].$;
+
+    const mainLocDocument = await openLocationDocument(mainLoc.file, document, bufferFilePath);
+
+    // Cppcheck line number is 1-indexed, while VS Code uses 0-indexing
+    let line = Number(mainLoc.line) - 1;
+
+    // Unmatched inline suppressions are reported at the line they apply to, but shown on the comment itself
+    const unmatchedSuppressionId = e.$.id === 'unmatchedSuppression' ? getUnmatchedSuppressionId(e.$.msg) : undefined;
+    let suppressionComment: SuppressionEntry | undefined;
+    if (unmatchedSuppressionId && mainLocDocument) {
+        suppressionComment = findUnmatchedInlineSuppression(mainLocDocument, line, unmatchedSuppressionId);
+        line = suppressionComment?.location?.range.start.line ?? line;
+    }
 
-    checksRunning = false;
-    updateProgressIndicator();
+    const lineCount = (mainLocDocument ?? document)?.lineCount ?? 0;
+    // Invalid line number usually means non-analysis output 
+    if (isNaN(line) || line < 0 || line >= lineCount) {
+        if (isCriticalError) {
+            line = 0;
+        } else {
+            return undefined;
+        }
+    }
+
+    // Cppcheck col number is 1-indexed, while VS Code uses 0-indexing
+    let col = Number(mainLoc.column) - 1;
+    if (isNaN(col) || col < 0 || !mainLocDocument || col > mainLocDocument.lineAt(line).text.length) {
+        col = 0;
+    }
+
+    // Findings of all severities are kept, the diagnostic collection only shows those of the enabled severities
+    const inconclusive = e.$.inconclusive === 'true';
+    const severity = unmatchedSuppressionId
+        ? vscode.DiagnosticSeverity.Hint
+        : getEditorSeverity(e.$.severity, mainLocDocument?.uri ?? document?.uri, inconclusive);
+
+    const range = suppressionComment?.location?.range
+        ?? new vscode.Range(line, col, line, mainLocDocument ? mainLocDocument.lineAt(line).text.length : col);
+    // MISRA findings only name the rule, unless its text is found in the rule texts file
+    const findingMessage = await misraRuleTexts.getMessage(e.$.id, mainLocDocument?.uri ?? document?.uri) ?? e.$.msg;
+    const message = inconclusive ? `${inconclusiveMessagePrefix}${findingMessage}` : findingMessage;
+    const diagnostic = new vscode.Diagnostic(range, message, severity);
+    diagnostic.source = "cppcheck";
+    if (unmatchedSuppressionId) {
+        diagnostic.tags = [vscode.DiagnosticTag.Unnecessary];
+    }
+    // If we have a link to documentation, include it
+    const documentationUrl = documentationLinkMap[e.$.id] || getPremiumCertLink(e.$.id) || getAddonLink(e.$.id);
+    diagnostic.code = documentationUrl ? {
+        value: e.$.id,
+        target: vscode.Uri.parse(documentationUrl)
+    } : e.$.id;
+
+    // If warning has a symbol we keep track of it
+    const symbolName = e.symbol?.[0] ?? '';
+    // Save line of code at main location if we can access it
+    const mainLocLine = mainLocDocument?.lineAt(line)?.text ?? '';
+    const mainLocOccurrence = mainLocDocument ? getLineOccurrence(mainLocDocument, line) : 0;
+    
+    diagnosticMetadataStore.set(diagnostic, {
+        symbolName,
+        mainLocLine,
+        mainLocOccurrence,
+        cwe: e.$.cwe,
+        cppcheckSeverity: e.$.severity,
+        verbose: e.$.verbose,
+        inconclusive
+    });
+
+    // Related Information, which is also the trace of the finding when there are several locations
+    const relatedInfos: vscode.DiagnosticRelatedInformation[] = [];
+    for (let i = 1; i <= locations.length; i++) {
+        // Related information is ordered in reverse in XML object
+        const loc = locations[locations.length - i].$;
+        // Locations without info text are kept when there are several, the main location is described by the message
+        const msg = loc.info ?? (locations.length > 1 ? (i === 1 ? e.$.msg : '') : undefined);
+        const lLine = Number(loc.line) - 1;
+        let lCol = Number(loc.column) - 1;
+
+        if (msg === undefined || isNaN(lLine) || lLine < 0) {
+            continue;
+        }
+
+        const relatedDocument = await openLocationDocument(loc.file, document, bufferFilePath);
+        if (lLine >= ((relatedDocument ?? document)?.lineCount ?? 0)) {
+            continue;
+        }
+        if (isNaN(lCol) || lCol < 0 || !relatedDocument || lCol > relatedDocument.lineAt(lLine).text.length) {
+            lCol = 0;
+        }
+        const relatedRange = new vscode.Range(
+            lLine, lCol,
+            lLine, relatedDocument ? relatedDocument.lineAt(lLine).text.length : lCol
+        );
+        relatedInfos.push(
+            new vscode.DiagnosticRelatedInformation(
+                new vscode.Location(relatedDocument ? relatedDocument.uri : vscode.Uri.file(''), relatedRange),
+                msg
+            )
+        );
+    }
+    if (relatedInfos.length > 0) {
+        diagnostic.relatedInformation = relatedInfos;
+    }
+
+    let uri: vscode.Uri | undefined;
+    if (document) {
+        const diagnosticFile = mainLoc.file;
+        var diagnosticFileIsOpenDocument = diagnosticFile === document.fileName;
+        if (!diagnosticFile.includes('/')) {
+            // If we do not have file path but only name we asume diagnosed file is open document if they share name
+            if (document.fileName.endsWith(diagnosticFile)) {
+                diagnosticFileIsOpenDocument = true;
+            }
+        }
+        if (diagnosticFileIsOpenDocument) {
+            uri = document.uri;
+        }
+    }
+    // Proceed only if we are able to open the document
+    uri ??= mainLocDocument?.uri;
+    if (!uri) {
+        return undefined;
+    }
+
+    // Findings hidden by the user or accepted into the baseline are not shown
+    const baselineEntry = createBaselineEntry(uri, e.$.id, symbolName || undefined, mainLocLine, mainLocOccurrence);
+    if (!isCriticalError && (hiddenWarningStore.isHidden(e.$.id, baselineEntry.fingerprint) || await baselineStore.contains(uri, baselineEntry))) {
+        return undefined;
+    }
+    return { uri, diagnostic };
+}
+
+async function openLocationDocument(
+    file: string,
+    document?: vscode.TextDocument,
+    bufferFilePath?: string
+): Promise<vscode.TextDocument | undefined> {
+    // Locations in the temporary copy of an unsaved buffer belong to the document it was copied from
+    if (document && bufferFilePath && path.resolve(file) === path.resolve(bufferFilePath)) {
+        return document;
+    }
+    try {
+        return await vscode.workspace.openTextDocument(file);
+    } catch {
+        return undefined;
+    }
+}
+
+function createDiagnosticBatch(sourceDocumentUri: string, diagnosticCollection: vscode.DiagnosticCollection, token?: vscode.CancellationToken) {
+    // Diagnostics are collected and published together, so the collection is not updated for every single warning
+    // If a token is given, nothing is published after it has been cancelled
+    let pending: Record<string, vscode.Diagnostic[]> = {};
+    let timer: NodeJS.Timeout | undefined;
+
+    const flush = () => {
+        clearTimeout(timer);
+        timer = undefined;
+        const diagnostics = pending;
+        pending = {};
+        if (token?.isCancellationRequested) {
+            return;
+        }
+        publishDiagnostics(diagnostics, sourceDocumentUri, diagnosticCollection);
+    };
+
+    const add = (uri: vscode.Uri, diagnostic: vscode.Diagnostic) => {
+        const key = uri.toString();
+        if (pending[key] === null || pending[key] === undefined) {
+            pending[key] = [];
+        }
+        pending[key].push(diagnostic);
+        if (!timer) {
+            timer = setTimeout(flush, diagnosticPublishInterval);
+        }
+    };
+
+    return { add, flush };
+}
+
+function publishDiagnostics(
+    diagnostics: Record<string, vscode.Diagnostic[]>,
+    sourceDocumentUri: string,
+    diagnosticCollection: vscode.DiagnosticCollection
+) {
+    for (const uri of Object.keys(diagnostics)) {
+        var newDiagnostics = diagnostics[uri];
+        // If file has existing diagnostics from analyzing other files we do not want to overwrite those
+        const existingDiagnostics = diagnosticCollection.get(vscode.Uri.parse(uri));
+        if (existingDiagnostics) {
+            newDiagnostics = diagnosticsUnion(newDiagnostics, existingDiagnostics.flat());
+        }
+        diagnosticCollection.set(vscode.Uri.parse(uri), newDiagnostics);
+        if (fileRelationMap[uri] === null ||fileRelationMap[uri] === undefined) {
+            fileRelationMap[uri] = new Set;
+        }
+        // NOTE: uri can be the same as sourceDocumentUri
+        fileRelationMap[uri].add(sourceDocumentUri);
+    }
+}
+
+function clearWorkspaceAnalysisDiagnostics(diagnosticCollection: vscode.DiagnosticCollection) {
+    // Files whose warnings only came from workspace analysis have their diagnostics cleared, others keep theirs
+    for (const fileUri of Object.keys(fileRelationMap)) {
+        if (fileRelationMap[fileUri].has(workspaceAnalysisSource)) {
+            fileRelationMap[fileUri].delete(workspaceAnalysisSource);
+            if (fileRelationMap[fileUri].size === 0) {
+                diagnosticCollection.delete(vscode.Uri.parse(fileUri));
+            }
+        }
+    }
 }
 
 // This method is called when your extension is deactivated
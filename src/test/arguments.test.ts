@@ -0,0 +1,121 @@
+import * as assert from 'assert';
+
+import { tokenizeArguments, expandScriptArguments } from '../util/arguments';
+
+suite('Argument Tokenizer Test Suite', () => {
+	test('Splits on whitespace', () => {
+		assert.deepStrictEqual(tokenizeArguments('--enable=style   --inconclusive\t-j4'), ['--enable=style', '--inconclusive', '-j4']);
+		assert.deepStrictEqual(tokenizeArguments(''), []);
+		assert.deepStrictEqual(tokenizeArguments('   '), []);
+	});
+
+	test('Keeps quoted paths with spaces together', () => {
+		assert.deepStrictEqual(
+			tokenizeArguments('--project="C:\\My Projects\\app.cppcheck" -I "include dir"'),
+			['--project=C:\\My Projects\\app.cppcheck', '-I', 'include dir']
+		);
+		assert.deepStrictEqual(tokenizeArguments("--include='my header.h'"), ['--include=my header.h']);
+	});
+
+	test('Keeps commas in suppressions', () => {
+		assert.deepStrictEqual(
+			tokenizeArguments('--suppress=memleak:src/a,b.c --suppress=uninitvar'),
+			['--suppress=memleak:src/a,b.c', '--suppress=uninitvar']
+		);
+	});
+
+	test('Handles quoted macro values and escapes', () => {
+		assert.deepStrictEqual(tokenizeArguments('-DNAME="\\"value\\""'), ['-DNAME="value"']);
+		assert.deepStrictEqual(tokenizeArguments("-DGREETING='hello world'"), ['-DGREETING=hello world']);
+		assert.deepStrictEqual(tokenizeArguments('-I path\\ with\\ spaces'), ['-I', 'path with spaces']);
+		assert.deepStrictEqual(tokenizeArguments('-DEMPTY= ""'), ['-DEMPTY=', '']);
+	});
+
+	test('Keeps Windows backslashes', () => {
+		assert.deepStrictEqual(tokenizeArguments('--project=C:\\work\\app.sln'), ['--project=C:\\work\\app.sln']);
+	});
+
+	test('Treats an unterminated quote as closed at the end', () => {
+		assert.deepStrictEqual(tokenizeArguments('-I "a b'), ['-I', 'a b']);
+	});
+
+	test('Parses JSON array form', () => {
+		assert.deepStrictEqual(
+			tokenizeArguments('["--enable=style", "--suppress=memleak:a b,c.c", "-DX=\\"1\\""]'),
+			['--enable=style', '--suppress=memleak:a b,c.c', '-DX="1"']
+		);
+	});
+
+	test('Parses array form that is not valid JSON', () => {
+		assert.deepStrictEqual(tokenizeArguments('[--enable=style, --inconclusive]'), ['--enable=style', '--inconclusive']);
+		assert.deepStrictEqual(tokenizeArguments('["a b", --x]'), ['a b', '--x']);
+	});
+
+	test('Keeps script commands together', () => {
+		assert.deepStrictEqual(
+			tokenizeArguments('--enable=style @(bash scripts/args.sh --verbose) -j4'),
+			['--enable=style', '@(bash scripts/args.sh --verbose)', '-j4']
+		);
+	});
+});
+
+suite('Script Argument Expansion Test Suite', () => {
+	test('Splices script output into the arguments', async () => {
+		const commands: string[] = [];
+		const args = await expandScriptArguments(
+			['--enable=style', '@(bash args.sh)', '-j4'],
+			async (command) => {
+				commands.push(command);
+				return 'generating\n@(--project="build dir/compile_commands.json" --suppress=a,b)\n';
+			}
+		);
+		assert.deepStrictEqual(commands, ['bash args.sh']);
+		assert.deepStrictEqual(args, ['--enable=style', '--project=build dir/compile_commands.json', '--suppress=a,b', '-j4']);
+	});
+
+	test('Runs multiple scripts in order', async () => {
+		const commands: string[] = [];
+		const args = await expandScriptArguments(
+			['@(first.sh)', '--x', '--include=@(second.sh)/config.h'],
+			async (command) => {
+				commands.push(command);
+				return command === 'first.sh' ? '@(-DA=1 -DB=2)' : '@(/opt/include)';
+			}
+		);
+		assert.deepStrictEqual(commands, ['first.sh', 'second.sh']);
+		assert.deepStrictEqual(args, ['-DA=1', '-DB=2', '--x', '--include=/opt/include/config.h']);
+	});
+
+	test('Handles nested parentheses in commands and output', async () => {
+		const tokens = tokenizeArguments('@(bash $(pwd)/args.sh "a)b") -j4');
+		assert.deepStrictEqual(tokens, ['@(bash $(pwd)/args.sh "a)b")', '-j4']);
+		const commands: string[] = [];
+		const args = await expandScriptArguments(tokens, async (command) => {
+			commands.push(command);
+			return '@(-D"MAX(a,b)=((a)>(b)?(a):(b))")';
+		});
+		assert.deepStrictEqual(commands, ['bash $(pwd)/args.sh "a)b"']);
+		assert.deepStrictEqual(args, ['-DMAX(a,b)=((a)>(b)?(a):(b))', '-j4']);
+	});
+
+	test('Does not split quoted arguments containing scripts again', async () => {
+		const tokens = tokenizeArguments('"--include=my dir/@(echo include)/config.h" -j4');
+		assert.deepStrictEqual(tokens, ['--include=my dir/@(echo include)/config.h', '-j4']);
+		const args = await expandScriptArguments(tokens, async () => '@(include)');
+		assert.deepStrictEqual(args, ['--include=my dir/include/config.h', '-j4']);
+	});
+
+	test('Fails when script output has no wrapped arguments', async () => {
+		await assert.rejects(
+			expandScriptArguments(['@(script.sh)'], async () => 'no arguments here'),
+			/does not contain arguments wrapped with @\(\)/
+		);
+	});
+
+	test('Leaves arguments without scripts untouched', async () => {
+		const args = await expandScriptArguments(['--enable=style'], async () => {
+			throw new Error('Script should not run');
+		});
+		assert.deepStrictEqual(args, ['--enable=style']);
+	});
+});
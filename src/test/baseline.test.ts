@@ -0,0 +1,86 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+import { BaselineStore, createBaselineEntry, getLineOccurrence } from '../util/baseline';
+import { CppcheckLogger } from '../util/logging';
+
+const logger = { error: () => {}, warn: () => {}, info: () => {}, debug: () => {} } as unknown as CppcheckLogger;
+
+function createDocument(lines: string[]): vscode.TextDocument {
+	return { lineAt: (line: number) => ({ text: lines[line] }) } as unknown as vscode.TextDocument;
+}
+
+suite('Baseline Test Suite', () => {
+	const uri = vscode.Uri.file(path.join(os.tmpdir(), 'src', 'a.c'));
+
+	test('Fingerprint ignores whitespace of the line', () => {
+		const entry = createBaselineEntry(uri, 'nullPointer', 'p', '    *p = 0;');
+		const reformatted = createBaselineEntry(uri, 'nullPointer', 'p', '\t*p\t  = 0;  ');
+		assert.strictEqual(reformatted.fingerprint, entry.fingerprint);
+	});
+
+	test('Fingerprint differs by checker, file, symbol and line', () => {
+		const entry = createBaselineEntry(uri, 'nullPointer', 'p', '*p = 0;');
+		const otherUri = vscode.Uri.file(path.join(os.tmpdir(), 'src', 'b.c'));
+		const others = [
+			createBaselineEntry(uri, 'uninitvar', 'p', '*p = 0;'),
+			createBaselineEntry(otherUri, 'nullPointer', 'p', '*p = 0;'),
+			createBaselineEntry(uri, 'nullPointer', 'q', '*p = 0;'),
+			createBaselineEntry(uri, 'nullPointer', 'p', '*p = 1;'),
+		];
+		for (const other of others) {
+			assert.notStrictEqual(other.fingerprint, entry.fingerprint);
+		}
+	});
+
+	test('Symbol is only kept when there is one', () => {
+		assert.strictEqual(createBaselineEntry(uri, 'nullPointer', 'p', '*p = 0;').symbol, 'p');
+		assert.ok(!('symbol' in createBaselineEntry(uri, 'nullPointer', undefined, '*p = 0;')));
+	});
+
+	test('Identical lines are told apart by their occurrence', () => {
+		const document = createDocument(['free(p);', 'p = malloc(4);', '  free(p);', 'free(q);', 'free(p);']);
+		assert.deepStrictEqual([0, 1, 2, 3, 4].map((line) => getLineOccurrence(document, line)), [0, 0, 1, 0, 2]);
+
+		const first = createBaselineEntry(uri, 'doubleFree', 'p', 'free(p);', 0);
+		const second = createBaselineEntry(uri, 'doubleFree', 'p', 'free(p);', 1);
+		assert.notStrictEqual(second.fingerprint, first.fingerprint);
+		// The first occurrence keeps the fingerprint it had before occurrences were counted
+		assert.strictEqual(first.fingerprint, createBaselineEntry(uri, 'doubleFree', 'p', 'free(p);').fingerprint);
+	});
+
+	suite('Baseline file', () => {
+		let directory: string;
+		let store: BaselineStore;
+
+		setup(() => {
+			directory = fs.mkdtempSync(path.join(os.tmpdir(), 'cppcheck-baseline-'));
+			store = new BaselineStore(logger);
+		});
+
+		teardown(() => {
+			store.dispose();
+			fs.rmSync(directory, { recursive: true, force: true });
+		});
+
+		test('Written entries are read back', async () => {
+			const baselinePath = path.join(directory, 'nested', 'baseline.json');
+			const entries = [
+				createBaselineEntry(uri, 'nullPointer', 'p', '*p = 0;'),
+				createBaselineEntry(uri, 'unusedVariable', undefined, 'int x;'),
+			];
+			await store.write(baselinePath, entries);
+			assert.deepStrictEqual(await store.read(baselinePath), entries);
+		});
+
+		test('Missing or invalid baseline has no entries', async () => {
+			assert.deepStrictEqual(await store.read(path.join(directory, 'missing.json')), []);
+			const invalidPath = path.join(directory, 'invalid.json');
+			fs.writeFileSync(invalidPath, '{"findings": 1}');
+			assert.deepStrictEqual(await store.read(invalidPath), []);
+		});
+	});
+});
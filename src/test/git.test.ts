@@ -0,0 +1,64 @@
+import * as assert from 'assert';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { GitChanges, parseChangedLines } from '../util/git';
+import { CppcheckLogger } from '../util/logging';
+
+const logger = { error: () => {}, warn: () => {}, info: () => {}, debug: () => {} } as unknown as CppcheckLogger;
+
+suite('Git Changed Lines Test Suite', () => {
+	test('Reads a single changed line from a hunk without count', () => {
+		assert.deepStrictEqual([...parseChangedLines('@@ -12 +14 @@ int main()\n-a\n+b\n')], [14]);
+	});
+
+	test('Reads no lines from a hunk that only removes lines', () => {
+		assert.deepStrictEqual([...parseChangedLines('@@ -12,3 +14,0 @@\n-a\n-b\n-c\n')], []);
+	});
+
+	test('Reads all lines of a hunk with count', () => {
+		assert.deepStrictEqual([...parseChangedLines('@@ -12,3 +14,5 @@\n')], [14, 15, 16, 17, 18]);
+	});
+
+	test('Reads the lines of all hunks', () => {
+		const diff = 'diff --git a/a.c b/a.c\n--- a/a.c\n+++ b/a.c\n@@ -1,0 +2 @@\n+x\n@@ -9,2 +10,2 @@\n-y\n-z\n+y\n+z\n';
+		assert.deepStrictEqual([...parseChangedLines(diff)], [2, 10, 11]);
+	});
+});
+
+suite('Git Changed Files Test Suite', () => {
+	let root: string;
+
+	setup(() => {
+		root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'cppcheck-git-')));
+		const git = (...args: string[]) => execFileSync('git', args, { cwd: root });
+		git('init', '-q');
+		git('config', 'user.email', 'test@example.com');
+		git('config', 'user.name', 'Test');
+		fs.writeFileSync(path.join(root, 'my file.c'), 'int a;\n');
+		fs.writeFileSync(path.join(root, 'unchanged.c'), 'int b;\n');
+		git('add', '.');
+		git('commit', '-q', '-m', 'Initial');
+	});
+
+	teardown(() => {
+		fs.rmSync(root, { recursive: true, force: true });
+	});
+
+	test('Finds changed and untracked files with spaces and non-ASCII characters', async () => {
+		fs.writeFileSync(path.join(root, 'my file.c'), 'int a;\nint c;\n');
+		fs.writeFileSync(path.join(root, 'größe.c'), 'int d;\n');
+		const files = await new GitChanges('HEAD', logger).getChangedFiles(root);
+		assert.deepStrictEqual(files.sort(), [path.join(root, 'größe.c'), path.join(root, 'my file.c')].sort());
+	});
+
+	test('Finds the changed lines of a file', async () => {
+		fs.writeFileSync(path.join(root, 'my file.c'), 'int a;\nint c;\n');
+		const changes = new GitChanges('HEAD', logger);
+		assert.strictEqual(await changes.isLineChanged(path.join(root, 'my file.c'), 1), false);
+		assert.strictEqual(await changes.isLineChanged(path.join(root, 'my file.c'), 2), true);
+		assert.strictEqual(await changes.isFileChanged(path.join(root, 'unchanged.c')), false);
+	});
+});
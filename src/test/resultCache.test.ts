@@ -0,0 +1,91 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+import { CppcheckLogger } from '../util/logging';
+import { AnalysisResultCache } from '../util/resultCache';
+import { CppcheckXmlError } from '../util/xmlStream';
+
+const logger = { error: () => {}, warn: () => {}, info: () => {}, debug: () => {} } as unknown as CppcheckLogger;
+
+const errors: CppcheckXmlError[] = [
+	{ $: { id: 'nullPointer', severity: 'error', msg: 'Null pointer dereference' }, location: [{ $: { file: 'a.c', line: '3' } }] },
+];
+
+// Moves the modification time of a file, as a rewrite within the same millisecond would not change it
+function touch(file: string, content: string) {
+	fs.writeFileSync(file, content);
+	const time = new Date(Date.now() + 5000);
+	fs.utimesSync(file, time, time);
+}
+
+suite('Analysis Result Cache Test Suite', () => {
+	let directory: string;
+	let source: string;
+	let cache: AnalysisResultCache;
+
+	setup(() => {
+		directory = fs.mkdtempSync(path.join(os.tmpdir(), 'cppcheck-cache-'));
+		fs.mkdirSync(path.join(directory, 'include'));
+		fs.writeFileSync(path.join(directory, 'include', 'config.h'), '#define SIZE 4\n');
+		fs.writeFileSync(path.join(directory, 'a.h'), '#include <config.h>\n');
+		source = path.join(directory, 'a.c');
+		fs.writeFileSync(source, '#include "a.h"\nint main() { return 0; }\n');
+		cache = new AnalysisResultCache(vscode.Uri.file(path.join(directory, 'storage')), logger);
+	});
+
+	teardown(() => {
+		fs.rmSync(directory, { recursive: true, force: true });
+	});
+
+	test('Returns the errors for the same content and configuration', async () => {
+		await cache.set(source, 'hash', ['2.14', directory, '-Iinclude'], errors, ['-Iinclude'], directory);
+		assert.deepStrictEqual(await cache.get(source, 'hash', ['2.14', directory, '-Iinclude']), errors);
+	});
+
+	test('Misses when the content or configuration has changed', async () => {
+		await cache.set(source, 'hash', ['2.14', directory], errors, [], directory);
+		assert.strictEqual(await cache.get(source, 'other hash', ['2.14', directory]), undefined);
+		assert.strictEqual(await cache.get(source, 'hash', ['2.15', directory]), undefined);
+		assert.strictEqual(await cache.get(path.join(directory, 'b.c'), 'hash', ['2.14', directory]), undefined);
+	});
+
+	test('Misses when an included file has changed', async () => {
+		await cache.set(source, 'hash', ['2.14'], errors, ['-I', 'include'], directory);
+		assert.strictEqual(cache.dependsOn(source, path.join(directory, 'a.h')), true);
+		assert.strictEqual(cache.dependsOn(source, path.join(directory, 'include', 'config.h')), true);
+
+		touch(path.join(directory, 'include', 'config.h'), '#define SIZE 8\n');
+		assert.strictEqual(await cache.get(source, 'hash', ['2.14']), undefined);
+	});
+
+	test('Misses when a suppressions file has changed or was removed', async () => {
+		const suppressions = path.join(directory, 'suppressions.txt');
+		fs.writeFileSync(suppressions, 'nullPointer\n');
+		const args = ['--suppressions-list=suppressions.txt', '--addon=misra'];
+		await cache.set(source, 'hash', ['2.14', ...args], errors, args, directory);
+		assert.deepStrictEqual(await cache.get(source, 'hash', ['2.14', ...args]), errors);
+
+		touch(suppressions, 'nullPointer\nuninitvar\n');
+		assert.strictEqual(await cache.get(source, 'hash', ['2.14', ...args]), undefined);
+
+		await cache.set(source, 'hash', ['2.14', ...args], errors, args, directory);
+		fs.rmSync(suppressions);
+		assert.strictEqual(await cache.get(source, 'hash', ['2.14', ...args]), undefined);
+	});
+
+	test('Forgets all entries when cleared', async () => {
+		await cache.set(source, 'hash', ['2.14'], errors, [], directory);
+		await cache.clear();
+		assert.strictEqual(await cache.get(source, 'hash', ['2.14']), undefined);
+		assert.strictEqual(cache.dependsOn(source, path.join(directory, 'a.h')), false);
+	});
+
+	test('Caches nothing without workspace storage', async () => {
+		const uncached = new AnalysisResultCache(undefined, logger);
+		await uncached.set(source, 'hash', ['2.14'], errors, [], directory);
+		assert.strictEqual(await uncached.get(source, 'hash', ['2.14']), undefined);
+	});
+});
@@ -0,0 +1,95 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+
+import { CppcheckLogger } from '../util/logging';
+import { AnalysisScheduler } from '../util/scheduler';
+
+const logger = { error: () => {}, warn: () => {}, info: () => {}, debug: () => {} } as unknown as CppcheckLogger;
+
+// A job that keeps running until it is finished from the test, and remembers whether it started and was cancelled
+function createJob() {
+	let finish!: () => void;
+	const finished = new Promise<void>((resolve) => finish = resolve);
+	const job = {
+		started: false,
+		token: undefined as vscode.CancellationToken | undefined,
+		finish,
+		run: (token: vscode.CancellationToken) => {
+			job.started = true;
+			job.token = token;
+			return finished;
+		},
+	};
+	return job;
+}
+
+suite('Analysis Scheduler Test Suite', () => {
+	let scheduler: AnalysisScheduler;
+
+	setup(() => {
+		scheduler = new AnalysisScheduler(logger);
+	});
+
+	teardown(() => {
+		scheduler.dispose();
+	});
+
+	test('Runs at most the default number of jobs at the same time', async () => {
+		const jobs = [createJob(), createJob(), createJob()];
+		const done = jobs.map((job, index) => scheduler.schedule(`file${index}`, job.run));
+		assert.deepStrictEqual(jobs.map((job) => job.started), [true, true, false]);
+		assert.deepStrictEqual(scheduler.getState(), { running: 2, queued: 1 });
+
+		jobs[0].finish();
+		await done[0];
+		assert.strictEqual(jobs[2].started, true);
+		assert.deepStrictEqual(scheduler.getState(), { running: 2, queued: 0 });
+
+		jobs[1].finish();
+		jobs[2].finish();
+		await Promise.all(done);
+		assert.deepStrictEqual(scheduler.getState(), { running: 0, queued: 0 });
+	});
+
+	test('Removes a queued job with the same key without running it', async () => {
+		const jobs = [createJob(), createJob(), createJob(), createJob()];
+		scheduler.schedule('a', jobs[0].run);
+		scheduler.schedule('b', jobs[1].run);
+		const replaced = scheduler.schedule('c', jobs[2].run);
+		scheduler.schedule('c', jobs[3].run);
+
+		await replaced;
+		assert.strictEqual(jobs[2].started, false);
+		assert.deepStrictEqual(scheduler.getState(), { running: 2, queued: 1 });
+		jobs.forEach((job) => job.finish());
+	});
+
+	test('Cancels a running job with the same key', async () => {
+		const first = createJob();
+		const second = createJob();
+		const firstDone = scheduler.schedule('a', first.run);
+		scheduler.schedule('a', second.run);
+
+		assert.strictEqual(first.token?.isCancellationRequested, true);
+		assert.strictEqual(second.started, true);
+		first.finish();
+		await firstDone;
+		assert.deepStrictEqual(scheduler.getState(), { running: 1, queued: 0 });
+		second.finish();
+	});
+
+	test('Cancels a job through the token given when scheduling', async () => {
+		const jobs = [createJob(), createJob(), createJob()];
+		const tokenSource = new vscode.CancellationTokenSource();
+		scheduler.schedule('a', jobs[0].run);
+		scheduler.schedule('b', jobs[1].run, tokenSource.token);
+		const queuedDone = scheduler.schedule('c', jobs[2].run, tokenSource.token);
+
+		tokenSource.cancel();
+		await queuedDone;
+		assert.strictEqual(jobs[1].token?.isCancellationRequested, true);
+		assert.strictEqual(jobs[2].started, false);
+		jobs.forEach((job) => job.finish());
+		tokenSource.dispose();
+	});
+});
@@ -0,0 +1,92 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+
+import {
+	addIdToSuppressionComment,
+	findInlineSuppressions,
+	parseSuppressionText,
+	removeIdsFromSuppressionComment,
+} from '../util/suppressions';
+
+function createDocument(text: string): vscode.TextDocument {
+	return { uri: vscode.Uri.file('/project/src/a.c'), getText: () => text } as unknown as vscode.TextDocument;
+}
+
+suite('Suppression Text Test Suite', () => {
+	test('Parses the ID, file and line of a suppression', () => {
+		assert.deepStrictEqual(parseSuppressionText('memleak'), { id: 'memleak' });
+		assert.deepStrictEqual(parseSuppressionText('memleak:src/a.c'), { id: 'memleak', file: 'src/a.c' });
+		assert.deepStrictEqual(parseSuppressionText('memleak:src/a.c:12'), { id: 'memleak', file: 'src/a.c', line: 12 });
+	});
+
+	test('Keeps colons of Windows paths in the file', () => {
+		assert.deepStrictEqual(parseSuppressionText('uninitvar:C:\\work\\a.c:3'), { id: 'uninitvar', file: 'C:\\work\\a.c', line: 3 });
+		assert.deepStrictEqual(parseSuppressionText('uninitvar:C:\\work\\a.c'), { id: 'uninitvar', file: 'C:\\work\\a.c' });
+	});
+});
+
+suite('Inline Suppression Parser Test Suite', () => {
+	test('Applies comments on their own line to the next line and trailing comments to their line', () => {
+		const entries = findInlineSuppressions(createDocument([
+			'int main() {',
+			'    // cppcheck-suppress nullPointer',
+			'    *p = 0;',
+			'    free(p); // cppcheck-suppress doubleFree',
+			'}',
+		].join('\n')));
+		assert.deepStrictEqual(entries.map((entry) => [entry.ids, entry.line, entry.text]), [
+			[['nullPointer'], 3, '// cppcheck-suppress nullPointer'],
+			[['doubleFree'], 4, '// cppcheck-suppress doubleFree'],
+		]);
+	});
+
+	test('Parses ID lists with symbol names', () => {
+		const [entry] = findInlineSuppressions(createDocument('// cppcheck-suppress[memleak symbolName=buf, uninitvar]\n'));
+		assert.deepStrictEqual(entry.ids, ['memleak', 'uninitvar']);
+		assert.strictEqual(entry.symbolName, 'buf');
+	});
+
+	test('Parses the variants of block comments', () => {
+		const entries = findInlineSuppressions(createDocument([
+			'/* cppcheck-suppress-file unusedFunction */',
+			'/* cppcheck-suppress-begin knownConditionTrueFalse */',
+			'if (1) {}',
+			'/* cppcheck-suppress-end knownConditionTrueFalse */',
+		].join('\n')));
+		assert.deepStrictEqual(entries.map((entry) => [entry.variant, entry.ids, entry.line]), [
+			['file', ['unusedFunction'], undefined],
+			['begin', ['knownConditionTrueFalse'], 2],
+			['end', ['knownConditionTrueFalse'], 4],
+		]);
+		assert.strictEqual(entries[0].text, '/* cppcheck-suppress-file unusedFunction */');
+	});
+
+	test('Ignores comments without a suppression', () => {
+		assert.deepStrictEqual(findInlineSuppressions(createDocument('// cppcheck is used here\nint a;\n')), []);
+	});
+});
+
+suite('Suppression Comment Edit Test Suite', () => {
+	test('Adds IDs in the list form', () => {
+		assert.strictEqual(addIdToSuppressionComment('// cppcheck-suppress memleak', 'uninitvar'), '// cppcheck-suppress[memleak,uninitvar]');
+		assert.strictEqual(addIdToSuppressionComment('/* cppcheck-suppress[a, b] */', 'c'), '/* cppcheck-suppress[a, b,c] */');
+	});
+
+	test('Removes IDs and keeps the others', () => {
+		assert.strictEqual(removeIdsFromSuppressionComment('// cppcheck-suppress[a,b,c]', ['b']), '// cppcheck-suppress[a,c]');
+		assert.strictEqual(
+			removeIdsFromSuppressionComment('// cppcheck-suppress[memleak symbolName=buf, uninitvar]', ['uninitvar']),
+			'// cppcheck-suppress[memleak symbolName=buf]'
+		);
+		assert.strictEqual(removeIdsFromSuppressionComment('/* cppcheck-suppress-begin a */', ['b']), '/* cppcheck-suppress-begin a */');
+	});
+
+	test('Removes the whole comment when no IDs are left', () => {
+		assert.strictEqual(removeIdsFromSuppressionComment('// cppcheck-suppress memleak', ['memleak']), undefined);
+		assert.strictEqual(removeIdsFromSuppressionComment('// cppcheck-suppress[a,b]', ['a', 'b']), undefined);
+	});
+
+	test('Leaves text without a suppression unchanged', () => {
+		assert.strictEqual(removeIdsFromSuppressionComment('// just a comment', ['a']), '// just a comment');
+	});
+});
@@ -0,0 +1,88 @@
+import * as assert from 'assert';
+
+import { CppcheckXmlError, CppcheckXmlStreamParser } from '../util/xmlStream';
+
+// Feeds the chunks to a parser and collects what it reports
+function parseChunks(chunks: string[]): { errors: CppcheckXmlError[], parseErrors: Error[] } {
+	const errors: CppcheckXmlError[] = [];
+	const parseErrors: Error[] = [];
+	const parser = new CppcheckXmlStreamParser((error) => errors.push(error), (err) => parseErrors.push(err));
+	chunks.forEach((chunk) => parser.write(chunk));
+	parser.end();
+	return { errors, parseErrors };
+}
+
+const output = `<?xml version="1.0" encoding="UTF-8"?>
+<results version="2">
+    <cppcheck version="2.14"/>
+    <errors>
+        <error id="nullPointer" severity="error" msg="Null pointer dereference: p" verbose="Null pointer dereference: p" cwe="476">
+            <location file="src/a.c" line="12" column="5" info="Null pointer dereference"/>
+            <location file="src/a.c" line="10" column="9" info="Assignment &apos;p=0&apos;"/>
+            <symbol>p</symbol>
+        </error>
+        <error id="unusedFunction" severity="style" msg="The function &apos;f&apos; is never used &amp; can be removed &lt;here&gt;">
+            <location file="src/b.c" line="3" column="0"/>
+            <symbol>f</symbol>
+            <symbol>g</symbol>
+        </error>
+    </errors>
+</results>
+`;
+
+suite('Cppcheck XML Stream Parser Test Suite', () => {
+	test('Reports errors with their locations and symbols', () => {
+		const { errors, parseErrors } = parseChunks([output]);
+		assert.deepStrictEqual(parseErrors, []);
+		assert.strictEqual(errors.length, 2);
+		assert.deepStrictEqual(errors[0].$, {
+			id: 'nullPointer',
+			severity: 'error',
+			msg: 'Null pointer dereference: p',
+			verbose: 'Null pointer dereference: p',
+			cwe: '476',
+		});
+		assert.deepStrictEqual(errors[0].location?.map((location) => location.$.line), ['12', '10']);
+		assert.deepStrictEqual(errors[0].symbol, ['p']);
+		assert.deepStrictEqual(errors[1].symbol, ['f', 'g']);
+	});
+
+	test('Decodes entities in attributes', () => {
+		const { errors } = parseChunks([output]);
+		assert.strictEqual(errors[0].location?.[1].$.info, "Assignment 'p=0'");
+		assert.strictEqual(errors[1].$.msg, "The function 'f' is never used & can be removed <here>");
+	});
+
+	test('Reports errors split across chunks', () => {
+		const chunks: string[] = [];
+		for (let i = 0; i < output.length; i += 7) {
+			chunks.push(output.slice(i, i + 7));
+		}
+		assert.deepStrictEqual(parseChunks(chunks), parseChunks([output]));
+	});
+
+	test('Reports each error as soon as it is closed', () => {
+		const reported: string[] = [];
+		const parser = new CppcheckXmlStreamParser((error) => reported.push(error.$.id), () => {});
+		const secondError = output.indexOf('<error id="unusedFunction"');
+		parser.write(output.slice(0, secondError));
+		assert.deepStrictEqual(reported, ['nullPointer']);
+		parser.write(output.slice(secondError));
+		parser.end();
+		assert.deepStrictEqual(reported, ['nullPointer', 'unusedFunction']);
+	});
+
+	test('Reports malformed XML once and keeps the errors before it', () => {
+		const malformed = output.replace('<error id="unusedFunction"', '<error id="unusedFunction" <location');
+		const { errors, parseErrors } = parseChunks([malformed, '<error id="later"></error>']);
+		assert.deepStrictEqual(errors.map((error) => error.$.id), ['nullPointer']);
+		assert.strictEqual(parseErrors.length, 1);
+	});
+
+	test('Reports truncated XML', () => {
+		const truncated = output.slice(0, output.indexOf('<error id="unusedFunction"') + 30);
+		const { errors, parseErrors } = parseChunks([truncated]);
+		assert.deepStrictEqual(errors.map((error) => error.$.id), ['nullPointer']);
+		assert.strictEqual(parseErrors.length, 1);
+	});
+});
@@ -0,0 +1,209 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { getUpdateTarget } from './configuration';
+import { looksLikePath, resolvePath } from './path';
+
+// Addons shipped with cppcheck, enabled by name with cppcheck-official.addons
+export const builtInAddons: { name: string, description: string }[] = [
+    { name: 'misra', description: 'MISRA C 2012 guidelines' },
+    { name: 'cert', description: 'SEI CERT C coding standard' },
+    { name: 'threadsafety', description: 'Thread safety of static variables and unsafe functions' },
+    { name: 'y2038', description: 'Year 2038 problems of 32-bit time_t' },
+    { name: 'naming', description: 'Naming conventions of variables and functions' },
+];
+
+// The --addon and --addon-python arguments for the addon settings, addons already given in the arguments are not repeated
+export async function getAddonArguments(args: string[], scope?: vscode.Uri): Promise<string[]> {
+    const config = vscode.workspace.getConfiguration('cppcheck-official', scope);
+    const ruleTexts = config.get<string>('misraRuleTexts', '').trim();
+    const addonArgs: string[] = [];
+    for (const name of config.get<string[]>('addons', []).filter((name) => !args.includes(`--addon=${name}`))) {
+        addonArgs.push(`--addon=${name === 'misra' && ruleTexts ? await writeMisraAddonFile(resolvePath(ruleTexts, scope)) : name}`);
+    }
+    addonArgs.push(
+        ...config.get<string[]>('addonConfigs', [])
+            .map((file) => `--addon=${resolvePath(file, scope)}`)
+            .filter((arg) => !args.includes(arg))
+    );
+    const pythonPath = config.get<string>('pythonPath', '').trim();
+    if (pythonPath && !args.some((arg) => arg.startsWith('--addon-python='))) {
+        addonArgs.push(`--addon-python=${resolvePath(pythonPath, scope)}`);
+    }
+    return addonArgs;
+}
+
+// The misra addon only reads rule texts given in an addon file, which is written to the temporary directory.
+// The file is only written when its content changes, as analysis results are cached until addon files change.
+async function writeMisraAddonFile(ruleTexts: string): Promise<string> {
+    const content = JSON.stringify({ script: 'misra.py', args: [`--rule-texts=${ruleTexts}`] }, null, 4);
+    const hash = crypto.createHash('sha1').update(content).digest('hex').slice(0, 12);
+    const file = path.join(os.tmpdir(), `cppcheck-official-misra-${hash}.json`);
+    const existing = await fs.promises.readFile(file, 'utf8').catch(() => undefined);
+    if (existing !== content) {
+        await fs.promises.writeFile(file, content, 'utf8');
+    }
+    return file;
+}
+
+// The Python interpreter cppcheck runs addons with, or undefined if no addons are used
+// A path is resolved for the workspace folder owning the scope, as cppcheck is run there, a bare command is looked up in PATH
+export function getAddonPython(args: string[], scope?: vscode.Uri): string | undefined {
+    if (!args.some((arg) => arg.startsWith('--addon='))) {
+        return undefined;
+    }
+    const pythonArg = args.find((arg) => arg.startsWith('--addon-python='));
+    if (!pythonArg) {
+        // Without --addon-python cppcheck looks for the same interpreter
+        return process.platform === 'win32' ? 'python' : 'python3';
+    }
+    const python = pythonArg.slice('--addon-python='.length);
+    return looksLikePath(python) ? resolvePath(python, scope) : python;
+}
+
+/*
+ * Lets the user pick the built-in addons to enable, keep or remove the configured addon files, and add new ones.
+ * MISRA needs the rule texts, which cannot be distributed with cppcheck, for its findings to be readable.
+ */
+export async function configureAddons(scope?: vscode.Uri) {
+    const config = vscode.workspace.getConfiguration('cppcheck-official', scope);
+    const enabledAddons = config.get<string[]>('addons', []);
+    const addonConfigs = config.get<string[]>('addonConfigs', []);
+    const addItem = { label: '$(add) Add Addon File...', description: 'JSON addon configuration or Python addon script', picked: false };
+    const selection = await vscode.window.showQuickPick(
+        [
+            { label: 'Built-in addons', kind: vscode.QuickPickItemKind.Separator },
+            ...builtInAddons.map((addon) => ({
+                label: addon.name,
+                description: addon.description,
+                picked: enabledAddons.includes(addon.name),
+            })),
+            { label: 'Addon files', kind: vscode.QuickPickItemKind.Separator },
+            ...addonConfigs.map((file) => ({ label: file, description: 'addon file', picked: true })),
+            addItem,
+        ],
+        { title: 'Select Cppcheck Addons', canPickMany: true }
+    );
+    if (!selection) {
+        return;
+    }
+
+    const selectedFiles = selection.filter((item) => addonConfigs.includes(item.label)).map((item) => item.label);
+    if (selection.includes(addItem)) {
+        const files = await vscode.window.showOpenDialog({
+            canSelectMany: true,
+            openLabel: 'Add Addon',
+            filters: { 'Cppcheck addons': ['json', 'py'] },
+        });
+        const folder = scope && vscode.workspace.getWorkspaceFolder(scope);
+        for (const file of files ?? []) {
+            // Files in the workspace folder are stored relative to it, so that the setting can be shared
+            const relativePath = folder ? path.relative(folder.uri.fsPath, file.fsPath) : '';
+            const storedPath = relativePath && !relativePath.startsWith('..') && !path.isAbsolute(relativePath)
+                ? `\${workspaceFolder}/${relativePath.replaceAll('\\', '/')}`
+                : file.fsPath;
+            if (!selectedFiles.includes(storedPath)) {
+                selectedFiles.push(storedPath);
+            }
+        }
+    }
+    const selectedAddons = builtInAddons
+        .map((addon) => addon.name)
+        .filter((name) => selection.some((item) => item.label === name));
+
+    await config.update('addons', selectedAddons, getUpdateTarget(config, 'addons'));
+    await config.update('addonConfigs', selectedFiles, getUpdateTarget(config, 'addonConfigs'));
+
+    if (selectedAddons.includes('misra') && !config.get<string>('misraRuleTexts', '').trim()) {
+        const selectAction = 'Select Rule Texts File';
+        const answer = await vscode.window.showInformationMessage(
+            'Cppcheck: MISRA findings only show the rule numbers unless a rule texts file is set up.',
+            selectAction
+        );
+        if (answer === selectAction) {
+            const files = await vscode.window.showOpenDialog({ canSelectMany: false, openLabel: 'Use Rule Texts' });
+            if (files?.[0]) {
+                await config.update('misraRuleTexts', files[0].fsPath, getUpdateTarget(config, 'misraRuleTexts'));
+            }
+        }
+    }
+}
+
+interface MisraRule {
+    // e.g. 'Rule 10.4' or 'Dir 4.1'
+    label: string;
+    category?: string;
+    text: string;
+}
+
+const misraIdPattern = /^(?:premium-)?misra-c-?2012-(dir-)?(\d+)\.(\d+)$/i;
+const misraRuleHeadingPattern = /^\s*(Rule|Dir)\s+(\d+)\.(\d+)\b\s*(Mandatory|Required|Advisory)?\s*(.*)$/i;
+
+// Rule texts in the format read by the misra addon: a 'Rule 1.2 Advisory' line followed by the text of the rule
+function parseMisraRuleTexts(content: string): Map<string, MisraRule> {
+    const rules = new Map<string, MisraRule>();
+    let current: MisraRule | undefined;
+    for (const line of content.split(/\r?\n/)) {
+        const heading = misraRuleHeadingPattern.exec(line);
+        if (heading) {
+            const kind = heading[1].toLowerCase() === 'dir' ? 'Dir' : 'Rule';
+            current = { label: `${kind} ${Number(heading[2])}.${Number(heading[3])}`, category: heading[4], text: heading[5].trim() };
+            rules.set(current.label, current);
+        } else if (!line.trim()) {
+            current = current?.text ? undefined : current;
+        } else if (current) {
+            current.text = `${current.text} ${line.trim()}`.trim();
+        }
+    }
+    return rules;
+}
+
+/*
+ * Texts of the MISRA rules from the file set with cppcheck-official.misraRuleTexts, shown in the messages of MISRA findings.
+ * Files are read once and read again when they are saved or the setting changes.
+ */
+export class MisraRuleTexts implements vscode.Disposable {
+    private readonly ruleTexts = new Map<string, Promise<Map<string, MisraRule>>>();
+    private readonly disposables: vscode.Disposable[] = [];
+
+    constructor() {
+        this.disposables.push(
+            vscode.workspace.onDidSaveTextDocument((document) => this.ruleTexts.delete(document.uri.fsPath)),
+            vscode.workspace.onDidChangeConfiguration((event) => {
+                if (event.affectsConfiguration('cppcheck-official.misraRuleTexts')) {
+                    this.ruleTexts.clear();
+                }
+            }),
+        );
+    }
+
+    // The message for a MISRA finding with the rule text, or undefined if the ID is no MISRA rule or its text is unknown
+    async getMessage(errorId: string, scope?: vscode.Uri): Promise<string | undefined> {
+        const match = misraIdPattern.exec(errorId);
+        const file = vscode.workspace.getConfiguration('cppcheck-official', scope).get<string>('misraRuleTexts', '').trim();
+        if (!match || !file) {
+            return undefined;
+        }
+        const label = `${match[1] ? 'Dir' : 'Rule'} ${Number(match[2])}.${Number(match[3])}`;
+        const rule = (await this.read(resolvePath(file, scope))).get(label);
+        if (!rule?.text) {
+            return undefined;
+        }
+        return `MISRA C 2012 ${rule.label}${rule.category ? ` (${rule.category})` : ''}: ${rule.text}`;
+    }
+
+    dispose() {
+        this.disposables.forEach((disposable) => disposable.dispose());
+    }
+
+    private read(file: string): Promise<Map<string, MisraRule>> {
+        let rules = this.ruleTexts.get(file);
+        if (!rules) {
+            rules = fs.promises.readFile(file, 'utf8').then(parseMisraRuleTexts, () => new Map<string, MisraRule>());
+            this.ruleTexts.set(file, rules);
+        }
+        return rules;
+    }
+}
@@ -0,0 +1,161 @@
+/*
+ * Splits a cppcheck argument string into separate arguments, the way a shell would.
+ * - Arguments are separated by whitespace
+ * - Double or single quotes group text containing whitespace, the quotes themselves are removed
+ * - A backslash escapes a following quote or whitespace character. Other backslashes are kept as they are,
+ *   so that Windows paths can be written without escaping
+ * - A JSON array of strings (e.g. ["--enable=style", "--suppress=memleak:a b.c"]) is used as is
+ * - Script commands wrapped with @() are kept as one argument, see expandScriptArguments
+ */
+export function tokenizeArguments(input: string): string[] {
+    const trimmed = input.trim();
+    if (trimmed.startsWith('[') && trimmed.endsWith(']')) {
+        return tokenizeArrayArguments(trimmed);
+    }
+    return tokenize(trimmed, false);
+}
+
+function tokenizeArrayArguments(input: string): string[] {
+    try {
+        const parsed = JSON.parse(input);
+        if (Array.isArray(parsed) && parsed.every((arg) => typeof arg === 'string')) {
+            return parsed.filter((arg: string) => arg.length > 0);
+        }
+    } catch {
+        // Not valid JSON, e.g. [--enable=style, --inconclusive]
+    }
+    // Fall back to treating the content as a list separated by commas and / or whitespace
+    return tokenize(input.slice(1, -1), true);
+}
+
+function tokenize(input: string, commaSeparated: boolean): string[] {
+    const tokens: string[] = [];
+    let current = '';
+    // A token may consist of nothing but quotes (""), in which case it is an empty argument
+    let inToken = false;
+    let quote: string | undefined;
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+        const next = input[i + 1];
+
+        if (quote) {
+            if (char === '\\' && next === '"' && quote === '"') {
+                current += next;
+                i++;
+            } else if (char === quote) {
+                quote = undefined;
+            } else {
+                current += char;
+            }
+            continue;
+        }
+
+        if (char === '@' && next === '(') {
+            // Script commands are kept together with their @() wrapper, to be run by expandScriptArguments
+            const end = findScriptEnd(input, i);
+            const scriptEnd = end < 0 ? input.length : end + 1;
+            current += input.slice(i, scriptEnd);
+            inToken = true;
+            i = scriptEnd - 1;
+        } else if (char === '\\' && next !== undefined && /["'\s]/.test(next)) {
+            current += next;
+            inToken = true;
+            i++;
+        } else if (char === '"' || char === "'") {
+            quote = char;
+            inToken = true;
+        } else if (/\s/.test(char) || (commaSeparated && char === ',')) {
+            if (inToken) {
+                tokens.push(current);
+            }
+            current = '';
+            inToken = false;
+        } else {
+            current += char;
+            inToken = true;
+        }
+    }
+
+    // An unterminated quote is treated as if it was closed at the end of the input
+    if (inToken) {
+        tokens.push(current);
+    }
+    return tokens;
+}
+
+/*
+ * Finds the parenthesis closing the script command wrapped with @() that starts at index start.
+ * Nested parentheses (e.g. `$(pwd)`) and quoted text are skipped. Returns -1 if the command is not closed.
+ */
+export function findScriptEnd(text: string, start: number): number {
+    let depth = 0;
+    let quote: string | undefined;
+    for (let i = start + 1; i < text.length; i++) {
+        const char = text[i];
+        if (quote) {
+            if (char === '\\' && quote === '"') {
+                i++;
+            } else if (char === quote) {
+                quote = undefined;
+            }
+        } else if (char === '"' || char === "'") {
+            quote = char;
+        } else if (char === '(') {
+            depth++;
+        } else if (char === ')') {
+            depth--;
+            if (depth === 0) {
+                return i;
+            }
+        }
+    }
+    return -1;
+}
+
+/*
+ * Replaces script commands wrapped with @() by the arguments the scripts output.
+ * Each script is expected to print the arguments wrapped with @(), e.g. `@(--project=path/to/project.json)`.
+ * Arguments may contain any number of scripts, which are run one at a time in order. The output is split into
+ * separate arguments with the same rules as the argument setting itself, the arguments given are already split
+ * and are not split again.
+ */
+export async function expandScriptArguments(args: string[], runScript: (command: string) => Promise<string>): Promise<string[]> {
+    const expandedArgs: string[] = [];
+    for (const arg of args) {
+        if (!arg.includes('@(')) {
+            expandedArgs.push(arg);
+            continue;
+        }
+
+        // Text directly before or after a script command is joined with the first or last argument of its output
+        const parts = [''];
+        let index = 0;
+        let scriptStart = arg.indexOf('@(');
+        while (scriptStart >= 0) {
+            const scriptEnd = findScriptEnd(arg, scriptStart);
+            const commandEnd = scriptEnd < 0 ? arg.length : scriptEnd;
+            const scriptOutput = await runScript(arg.slice(scriptStart + 2, commandEnd));
+            const [first = '', ...rest] = tokenizeArguments(extractScriptOutputArguments(scriptOutput));
+            parts[parts.length - 1] += arg.slice(index, scriptStart) + first;
+            parts.push(...rest);
+            index = commandEnd + 1;
+            scriptStart = arg.indexOf('@(', index);
+        }
+        parts[parts.length - 1] += arg.slice(index);
+        // A script without output that is the whole argument leaves no argument
+        if (parts.length > 1 || parts[0] !== '') {
+            expandedArgs.push(...parts);
+        }
+    }
+    return expandedArgs;
+}
+
+function extractScriptOutputArguments(scriptOutput: string): string {
+    const start = scriptOutput.indexOf('@(');
+    if (start < 0) {
+        throw new Error(`Script output does not contain arguments wrapped with @(): ${scriptOutput.trim()}`);
+    }
+    const end = findScriptEnd(scriptOutput, start);
+    return scriptOutput.slice(start + 2, end < 0 ? scriptOutput.length : end);
+}
@@ -0,0 +1,164 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { CppcheckLogger } from './logging';
+import { resolvePath } from './path';
+
+// A finding accepted into the baseline. The readable fields are kept so that the baseline file can be reviewed.
+export interface BaselineEntry {
+    checkerId: string;
+    file: string;
+    symbol?: string;
+    fingerprint: string;
+}
+
+interface BaselineFile {
+    version: number;
+    createdAt: string;
+    findings: BaselineEntry[];
+}
+
+const baselineFileVersion = 1;
+export const defaultBaselineFileName = '.cppcheck-baseline.json';
+
+// Files are identified relative to their workspace folder, so that the baseline can be shared through version control
+function getBaselineFile(uri: vscode.Uri): string {
+    const folder = vscode.workspace.getWorkspaceFolder(uri);
+    const file = folder ? path.relative(folder.uri.fsPath, uri.fsPath) : uri.fsPath;
+    return file.replaceAll('\\', '/');
+}
+
+function normalizeLine(lineText: string): string {
+    return lineText.trim().replace(/\s+/g, ' ');
+}
+
+// How many lines before the line (0-indexed) have the same content, which tells repeated lines such as free(p); apart
+export function getLineOccurrence(document: vscode.TextDocument, line: number): number {
+    const normalizedLine = normalizeLine(document.lineAt(line).text);
+    let occurrence = 0;
+    for (let previous = 0; previous < line; previous++) {
+        if (normalizeLine(document.lineAt(previous).text) === normalizedLine) {
+            occurrence++;
+        }
+    }
+    return occurrence;
+}
+
+/*
+ * The fingerprint does not include the line number, so that findings stay matched when code above them is edited.
+ * Whitespace of the line content is normalized, so that reformatting does not bring findings back either.
+ * Repeated lines are told apart by their occurrence, which is left out for the first one so that fingerprints of
+ * baselines written before stay the same.
+ */
+export function createBaselineEntry(
+    uri: vscode.Uri,
+    checkerId: string,
+    symbol: string | undefined,
+    lineText: string,
+    occurrence = 0
+): BaselineEntry {
+    const file = getBaselineFile(uri);
+    const parts = [checkerId, file, symbol ?? '', normalizeLine(lineText)];
+    if (occurrence > 0) {
+        parts.push(String(occurrence));
+    }
+    const fingerprint = crypto
+        .createHash('sha1')
+        .update(parts.join('\n'), 'utf8')
+        .digest('hex');
+    return symbol ? { checkerId, file, symbol, fingerprint } : { checkerId, file, fingerprint };
+}
+
+/*
+ * Loads the baseline files configured with cppcheck-official.baseline, which may differ between workspace folders.
+ * Baselines are read once and read again when the file changes.
+ */
+export class BaselineStore implements vscode.Disposable {
+    private readonly baselines = new Map<string, Promise<Set<string>>>();
+    private readonly watchers = new Map<string, vscode.FileSystemWatcher>();
+    private readonly onDidChangeEmitter = new vscode.EventEmitter<void>();
+    readonly onDidChange = this.onDidChangeEmitter.event;
+
+    constructor(private readonly logger: CppcheckLogger) {}
+
+    // Returns the path of the baseline file configured for the scope, if any
+    getBaselinePath(scope?: vscode.Uri): string | undefined {
+        const setting = vscode.workspace.getConfiguration('cppcheck-official', scope).get<string>('baseline', '').trim();
+        return setting ? resolvePath(setting, scope) : undefined;
+    }
+
+    async contains(uri: vscode.Uri, entry: BaselineEntry): Promise<boolean> {
+        const baselinePath = this.getBaselinePath(uri);
+        if (!baselinePath) {
+            return false;
+        }
+        const fingerprints = await this.load(baselinePath);
+        return fingerprints.has(entry.fingerprint);
+    }
+
+    async read(baselinePath: string): Promise<BaselineEntry[]> {
+        try {
+            const content: BaselineFile = JSON.parse(await fs.promises.readFile(baselinePath, 'utf8'));
+            if (!Array.isArray(content.findings)) {
+                throw new Error('no findings array');
+            }
+            return content.findings;
+        } catch (err) {
+            if (!(err instanceof Error && 'code' in err && err.code === 'ENOENT')) {
+                const message = err instanceof Error ? err.message : String(err);
+                this.logger.error(`Could not read baseline ${baselinePath}: ${message}`);
+            }
+            return [];
+        }
+    }
+
+    async write(baselinePath: string, entries: BaselineEntry[]) {
+        const content: BaselineFile = {
+            version: baselineFileVersion,
+            createdAt: new Date().toISOString(),
+            findings: entries,
+        };
+        await fs.promises.mkdir(path.dirname(baselinePath), { recursive: true });
+        await fs.promises.writeFile(baselinePath, JSON.stringify(content, null, 2) + '\n', 'utf8');
+        this.reload(baselinePath);
+    }
+
+    dispose() {
+        this.watchers.forEach((watcher) => watcher.dispose());
+        this.onDidChangeEmitter.dispose();
+    }
+
+    private load(baselinePath: string): Promise<Set<string>> {
+        let baseline = this.baselines.get(baselinePath);
+        if (!baseline) {
+            baseline = this.read(baselinePath).then((entries) => {
+                this.logger.debug(`Loaded ${entries.length} findings from baseline ${baselinePath}`);
+                return new Set(entries.map((entry) => entry.fingerprint));
+            });
+            this.baselines.set(baselinePath, baseline);
+            this.watch(baselinePath);
+        }
+        return baseline;
+    }
+
+    private watch(baselinePath: string) {
+        if (this.watchers.has(baselinePath)) {
+            return;
+        }
+        const watcher = vscode.workspace.createFileSystemWatcher(
+            new vscode.RelativePattern(vscode.Uri.file(path.dirname(baselinePath)), path.basename(baselinePath))
+        );
+        const reload = () => this.reload(baselinePath);
+        watcher.onDidChange(reload);
+        watcher.onDidCreate(reload);
+        watcher.onDidDelete(reload);
+        this.watchers.set(baselinePath, watcher);
+    }
+
+    private reload(baselinePath: string) {
+        if (this.baselines.delete(baselinePath)) {
+            this.onDidChangeEmitter.fire();
+        }
+    }
+}
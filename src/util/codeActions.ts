@@ -1,19 +1,124 @@
+import * as path from 'path';
 import * as vscode from 'vscode';
 import { DiagnosticMetadataStore, filterDiagnosticsDuplicatesForLine } from './diagnostics';
-import { ProjectFileStore } from './files';
+import { SuppressionTargetStore, describeSuppressionTarget, supportsSymbolName } from './files';
+import { addIdToSuppressionComment, findInlineSuppressionOnLine, getUnmatchedSuppressionId, removeInlineSuppressionIds } from './suppressions';
+
+type SuppressionCommentStyle = 'line' | 'block' | 'blockInC';
+
+const functionSymbolKinds = [vscode.SymbolKind.Function, vscode.SymbolKind.Method, vscode.SymbolKind.Constructor];
+
+// Suppression comments are written as // comments, or as /* */ comments where configured with cppcheck-official.suppressionCommentStyle
+function formatSuppressionComment(document: vscode.TextDocument, body: string): string {
+    const style = vscode.workspace.getConfiguration('cppcheck-official', document.uri).get<SuppressionCommentStyle>('suppressionCommentStyle', 'line');
+    const useBlockComment = style === 'block' || (style === 'blockInC' && document.fileName.toLowerCase().endsWith('.c'));
+    return useBlockComment ? `/* ${body} */` : `// ${body}`;
+}
+
+function getDiagnosticCode(diagnostic: vscode.Diagnostic): string {
+    return String(typeof(diagnostic.code) === "object" ? diagnostic.code.value : diagnostic.code);
+}
+
+function getIndentation(document: vscode.TextDocument, line: number): string {
+    return document.lineAt(line).text.match(/^\s*/)?.[0] ?? "";
+}
+
+// Surrounds the lines with cppcheck-suppress-begin and cppcheck-suppress-end comments
+// Cppcheck only documents the ID list form for single line suppressions, so every ID gets a pair of its own, nested
+function createBeginEndEdit(document: vscode.TextDocument, startLine: number, endLine: number, ids: string[]): vscode.WorkspaceEdit {
+    const indent = getIndentation(document, startLine);
+    const edit = new vscode.WorkspaceEdit();
+    edit.insert(
+        document.uri,
+        new vscode.Position(startLine, 0),
+        ids.map((id) => `${indent}${formatSuppressionComment(document, `cppcheck-suppress-begin ${id}`)}\n`).join('')
+    );
+    edit.insert(
+        document.uri,
+        document.lineAt(endLine).range.end,
+        [...ids].reverse().map((id) => `\n${indent}${formatSuppressionComment(document, `cppcheck-suppress-end ${id}`)}`).join('')
+    );
+    return edit;
+}
+
+type DocumentSymbols = (vscode.DocumentSymbol | vscode.SymbolInformation)[] | undefined;
+
+// Finds the innermost function, method or constructor containing the range, using the symbols of a symbol provider
+function findEnclosingFunction(symbols: DocumentSymbols, range: vscode.Range): vscode.Range | undefined {
+    let enclosing: vscode.Range | undefined;
+    const visit = (symbol: vscode.DocumentSymbol | vscode.SymbolInformation) => {
+        const symbolRange = 'range' in symbol ? symbol.range : symbol.location.range;
+        if (!symbolRange.contains(range)) {
+            return;
+        }
+        if (functionSymbolKinds.includes(symbol.kind) && (!enclosing || enclosing.contains(symbolRange))) {
+            enclosing = symbolRange;
+        }
+        if ('children' in symbol) {
+            symbol.children.forEach(visit);
+        }
+    };
+    (symbols ?? []).forEach(visit);
+    return enclosing;
+}
+
+type MacroDefinition = { name: string, document: vscode.TextDocument, line: number };
+
+// Finds the #define whose body contains the line, following the line continuations above it
+function findEnclosingMacroDefinition(document: vscode.TextDocument, line: number): MacroDefinition | undefined {
+    let defineLine = line;
+    while (defineLine > 0 && document.lineAt(defineLine - 1).text.trimEnd().endsWith('\\')) {
+        defineLine--;
+    }
+    const match = /^[ \t]*#[ \t]*define[ \t]+([A-Za-z_]\w*)/.exec(document.lineAt(defineLine).text);
+    return match ? { name: match[1], document, line: defineLine } : undefined;
+}
+
+// Whether the file is named by an #include directive of the document
+function isIncludedBy(document: vscode.TextDocument, uri: vscode.Uri): boolean {
+    const filePath = path.normalize(uri.fsPath);
+    for (const match of document.getText().matchAll(/^[ \t]*#[ \t]*include[ \t]*["<]([^">]+)[">]/gm)) {
+        const includePath = path.normalize(match[1]);
+        if (filePath === path.resolve(path.dirname(document.uri.fsPath), includePath) || filePath.endsWith(`${path.sep}${includePath}`)) {
+            return true;
+        }
+    }
+    return false;
+}
+
+// Finds the #define of the macro whose body the location of the warning or a step of its trace points into,
+// in the document itself or in a header it includes that is open
+function findMacroDefinition(document: vscode.TextDocument, diagnostic: vscode.Diagnostic): MacroDefinition | undefined {
+    const locations = [new vscode.Location(document.uri, diagnostic.range), ...(diagnostic.relatedInformation ?? []).map((info) => info.location)];
+    for (const location of locations) {
+        const candidate = location.uri.toString() === document.uri.toString()
+            ? document
+            : vscode.workspace.textDocuments.find((d) => d.uri.toString() === location.uri.toString() && isIncludedBy(document, d.uri));
+        if (candidate && location.range.start.line < candidate.lineCount) {
+            const macro = findEnclosingMacroDefinition(candidate, location.range.start.line);
+            if (macro) {
+                return macro;
+            }
+        }
+    }
+    return undefined;
+}
+
 export class CodeActionProvider implements vscode.CodeActionProvider {
     constructor(
         private readonly metadataStore: DiagnosticMetadataStore,
-        private readonly projectFileStore: ProjectFileStore
+        private readonly suppressionTargetStore: SuppressionTargetStore
     ) {}
-    provideCodeActions(
+    async provideCodeActions(
         document: vscode.TextDocument,
         range: vscode.Range,
         context: vscode.CodeActionContext,
         token: vscode.CancellationToken
-    ): vscode.CodeAction[] {
+    ): Promise<vscode.CodeAction[]> {
 
         const actions: vscode.CodeAction[] = [];
+        // Symbols are looked up once, when the first warning that is still on its expected line needs them
+        let documentSymbols: Thenable<DocumentSymbols> | undefined;
 
         // If same warning exists more than once on a given line we don't want duplicated code actions
         const diagnostics = filterDiagnosticsDuplicatesForLine(context.diagnostics);
@@ -37,40 +142,92 @@ export class CodeActionProvider implements vscode.CodeActionProvider {
             if (typeof(diagnosticCode) === "object" && typeof(diagnosticCode) !== null) {
                 diagnosticCode = diagnosticCode.value;
             }
-            
-            // Set up one action for suppressing the specific warning on the line targeted by the diagnostic
-            const suppressAction = new vscode.CodeAction(
-                `Add comment that suppresses this ${diagnosticCode} warning`,
-                vscode.CodeActionKind.QuickFix
-            );
 
-            // Copy indentation from line affected by diagnostic
-            const indent = lineText.match(/^\s*/)?.[0] ?? "";
+            // Unmatched suppressions are removed rather than suppressed
+            if (diagnosticCode === 'unmatchedSuppression') {
+                actions.push(...this.createUnmatchedSuppressionActions(document, diagnostic));
+                continue;
+            }
             
-            // Insert suppression comment above affected line
-            const suppressLineEdit = new vscode.WorkspaceEdit();
-            suppressLineEdit.insert(
-                document.uri,
-                new vscode.Position(
-                    diagnostic.range.start.line,
-                    0,
-                ),
-                `${indent}// cppcheck-suppress ${diagnosticCode}\n`
-            );
-            suppressAction.edit = suppressLineEdit;
+            // Inconclusive findings are named as such in the titles of the actions for this warning
+            const warningDescription = this.metadataStore.get(diagnostic)?.inconclusive
+                ? `inconclusive ${diagnosticCode}`
+                : String(diagnosticCode);
 
             // For inline suppression we also hide the warning so user does not have to rerun analysis for it to disappear
-            suppressAction.command = {
+            // The suppression comment keeps it away in future analyses, so it is not remembered as hidden
+            const hideSuppressedCommand: vscode.Command = {
                 command: "cppcheck-official.hideWarning",
                 title: "Hide warning",
-                arguments: [document.uri, diagnosticCode, diagnostic.range]
+                arguments: [document.uri, diagnosticCode, diagnostic.range, false]
+            };
+            const addInlineAction = (title: string, edit: vscode.WorkspaceEdit) => {
+                const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+                action.edit = edit;
+                action.command = hideSuppressedCommand;
+                action.diagnostics = [diagnostic];
+                actions.push(action);
             };
-            suppressAction.diagnostics = [diagnostic];
-            actions.push(suppressAction);
+
+            // A suppression comment that already applies to the line gets the ID added, instead of stacking another comment
+            const existingSuppression = [mainLocLineNumber, mainLocLineNumber - 1]
+                .map((line) => findInlineSuppressionOnLine(document, line))
+                .find((entry) => entry && !entry.variant && entry.line === mainLocLineNumber + 1);
+            if (existingSuppression?.location && !existingSuppression.ids.includes(String(diagnosticCode))) {
+                const appendEdit = new vscode.WorkspaceEdit();
+                appendEdit.replace(
+                    document.uri,
+                    existingSuppression.location.range,
+                    addIdToSuppressionComment(existingSuppression.text, String(diagnosticCode))
+                );
+                addInlineAction(`Add ${diagnosticCode} to the existing suppression comment`, appendEdit);
+            } else if (!existingSuppression) {
+                // Insert suppression comment above affected line, copying its indentation
+                const suppressLineEdit = new vscode.WorkspaceEdit();
+                suppressLineEdit.insert(
+                    document.uri,
+                    new vscode.Position(
+                        diagnostic.range.start.line,
+                        0,
+                    ),
+                    `${getIndentation(document, mainLocLineNumber)}${formatSuppressionComment(document, `cppcheck-suppress ${diagnosticCode}`)}\n`
+                );
+                addInlineAction(`Add comment that suppresses this ${warningDescription} warning`, suppressLineEdit);
+            }
+
+            // Suppress the warning type in the function around the warning
+            documentSymbols ??= vscode.commands.executeCommand<DocumentSymbols>('vscode.executeDocumentSymbolProvider', document.uri);
+            const functionRange = findEnclosingFunction(await documentSymbols, diagnostic.range);
+            if (token.isCancellationRequested) {
+                return [];
+            }
+            if (functionRange) {
+                addInlineAction(
+                    `Suppress ${diagnosticCode} in the enclosing function`,
+                    createBeginEndEdit(document, functionRange.start.line, functionRange.end.line, [String(diagnosticCode)])
+                );
+            }
+
+            // Suppress the warning type in the whole file, with the comment at the top of the file
+            const fileEdit = new vscode.WorkspaceEdit();
+            fileEdit.insert(document.uri, new vscode.Position(0, 0), `${formatSuppressionComment(document, `cppcheck-suppress-file ${diagnosticCode}`)}\n`);
+            addInlineAction(`Suppress ${diagnosticCode} in this file`, fileEdit);
+
+            // Suppress the warning type where the macro the warning is in is expanded, with the comment above its #define
+            const macro = findMacroDefinition(document, diagnostic);
+            if (macro) {
+                const macroEdit = new vscode.WorkspaceEdit();
+                macroEdit.insert(
+                    macro.document.uri,
+                    new vscode.Position(macro.line, 0),
+                    `${getIndentation(macro.document, macro.line)}${formatSuppressionComment(macro.document, `cppcheck-suppress-macro ${diagnosticCode}`)}\n`
+                );
+                addInlineAction(`Suppress ${diagnosticCode} in expansions of macro ${macro.name}`, macroEdit);
+            }
 
             // Set up an action for hiding a warning
             const hideAction = new vscode.CodeAction(
-                `Hide this ${diagnosticCode} warning`,
+                `Hide this ${warningDescription} warning`,
                 vscode.CodeActionKind.QuickFix
             );
 
@@ -99,44 +256,94 @@ export class CodeActionProvider implements vscode.CodeActionProvider {
             actions.push(hideTypeAction);
 
             /* 
-            * Actions only applicable if project file is used
+            * Actions writing to the configured suppressions file or project file, a suppressions file is created if there is none
             */
-           if (this.projectFileStore.hasCppcheckProjectFile()) {
-                // Set up an action for suppressing warning of a given type universally
-                const suppressTypeAction = new vscode.CodeAction(
-                    `Suppress warning type ${diagnosticCode} universally (in project file)`,
-                    vscode.CodeActionKind.QuickFix
-                );
+            const suppressionTarget = this.suppressionTargetStore.get(document.uri);
+            const targetDescription = suppressionTarget ? describeSuppressionTarget(suppressionTarget) : 'new suppressions file';
 
-                suppressTypeAction.command = {
-                    command: "cppcheck-official.suppressWarningAll",
-                    title: "Suppress warning universally",
-                    arguments: [diagnosticCode]
-                };
-
-                suppressTypeAction.diagnostics = [diagnostic];
-                actions.push(suppressTypeAction);
-
-                // Set up an action for suppressing warning based on file or symbol name
-                const symbol = this.metadataStore.get(diagnostic)?.symbolName;
-                const suppressAdvancedAction = new vscode.CodeAction(
-                    symbol
-                    ? `Suppress warning ${diagnosticCode} based on file and / or symbol`
-                    :`Suppress warning ${diagnosticCode} based on file`,
-                    vscode.CodeActionKind.QuickFix
-                );
-                
-                suppressAdvancedAction.command = {
-                    command: "cppcheck-official.suppressWarningAdvanced",
-                    title: "Suppress warning advanced",
-                    arguments: [diagnosticCode, document, diagnostic]
-                };
-
-                suppressAdvancedAction.diagnostics = [diagnostic];
-                actions.push(suppressAdvancedAction);
-            }
+            // Set up an action for suppressing warning of a given type universally
+            const suppressTypeAction = new vscode.CodeAction(
+                `Suppress warning type ${diagnosticCode} universally (in ${targetDescription})`,
+                vscode.CodeActionKind.QuickFix
+            );
+
+            suppressTypeAction.command = {
+                command: "cppcheck-official.suppressWarningAll",
+                title: "Suppress warning universally",
+                arguments: [diagnosticCode, undefined, undefined, document.uri]
+            };
+
+            suppressTypeAction.diagnostics = [diagnostic];
+            actions.push(suppressTypeAction);
+
+            // Set up an action for suppressing warning based on file or symbol name
+            const symbol = supportsSymbolName(suppressionTarget) ? this.metadataStore.get(diagnostic)?.symbolName : undefined;
+            const suppressAdvancedAction = new vscode.CodeAction(
+                symbol
+                ? `Suppress warning ${diagnosticCode} based on file and / or symbol`
+                :`Suppress warning ${diagnosticCode} based on file`,
+                vscode.CodeActionKind.QuickFix
+            );
+            
+            suppressAdvancedAction.command = {
+                command: "cppcheck-official.suppressWarningAdvanced",
+                title: "Suppress warning advanced",
+                arguments: [diagnosticCode, document, diagnostic]
+            };
+
+            suppressAdvancedAction.diagnostics = [diagnostic];
+            actions.push(suppressAdvancedAction);
+        }
+
+        // Suppress every cppcheck warning in a selection of several lines with begin and end comments
+        const selectedDiagnostics = context.diagnostics.filter((diagnostic) =>
+            diagnostic.source === 'cppcheck' && getDiagnosticCode(diagnostic) !== 'unmatchedSuppression');
+        if (!range.isSingleLine && selectedDiagnostics.length > 0) {
+            const ids = [...new Set(selectedDiagnostics.map(getDiagnosticCode))];
+            const selectionAction = new vscode.CodeAction(
+                `Suppress all cppcheck warnings in the selection (${ids.join(', ')})`,
+                vscode.CodeActionKind.QuickFix
+            );
+            const endLine = range.end.character === 0 && range.end.line > range.start.line ? range.end.line - 1 : range.end.line;
+            selectionAction.edit = createBeginEndEdit(document, range.start.line, endLine, ids);
+            selectionAction.diagnostics = selectedDiagnostics;
+            actions.push(selectionAction);
         }
 
         return actions;
     }
+
+    private createUnmatchedSuppressionActions(document: vscode.TextDocument, diagnostic: vscode.Diagnostic): vscode.CodeAction[] {
+        const id = getUnmatchedSuppressionId(diagnostic.message);
+        const removeEdit = new vscode.WorkspaceEdit();
+        // Suppressions that are not inline, e.g. in the project file, are only removed by the bulk command
+        if (!id || removeInlineSuppressionIds(document, [{ line: diagnostic.range.start.line, id }], removeEdit) === 0) {
+            return [];
+        }
+        const actions: vscode.CodeAction[] = [];
+        const removeAction = new vscode.CodeAction(`Remove unmatched suppression of ${id}`, vscode.CodeActionKind.QuickFix);
+        removeAction.edit = removeEdit;
+        removeAction.command = {
+            command: "cppcheck-official.hideWarning",
+            title: "Hide warning",
+            arguments: [document.uri, 'unmatchedSuppression', diagnostic.range, false]
+        };
+        removeAction.diagnostics = [diagnostic];
+        removeAction.isPreferred = true;
+        actions.push(removeAction);
+
+        const unmatchedCount = vscode.languages.getDiagnostics(document.uri)
+            .filter((d) => d.source === 'cppcheck' && getDiagnosticCode(d) === 'unmatchedSuppression').length;
+        if (unmatchedCount > 1) {
+            const removeAllAction = new vscode.CodeAction('Remove all unmatched suppressions in this file', vscode.CodeActionKind.QuickFix);
+            removeAllAction.command = {
+                command: "cppcheck-official.removeUnmatchedSuppressions",
+                title: "Remove unmatched suppressions",
+                arguments: [document.uri]
+            };
+            removeAllAction.diagnostics = [diagnostic];
+            actions.push(removeAllAction);
+        }
+        return actions;
+    }
 }
\ No newline at end of file
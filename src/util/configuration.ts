@@ -0,0 +1,9 @@
+import * as vscode from 'vscode';
+
+// Settings are changed where they are defined for the scope the configuration was read for, since a value of the
+// workspace folder would hide a change of the workspace value
+export function getUpdateTarget(config: vscode.WorkspaceConfiguration, key: string): vscode.ConfigurationTarget {
+    return config.inspect(key)?.workspaceFolderValue !== undefined
+        ? vscode.ConfigurationTarget.WorkspaceFolder
+        : vscode.ConfigurationTarget.Workspace;
+}
@@ -3,6 +3,13 @@ import * as vscode from 'vscode';
 interface DiagnosticMetadata {
     symbolName?: string;
     mainLocLine?: string;
+    // Occurrence of the line among identical lines of the file, see getLineOccurrence
+    mainLocOccurrence?: number;
+    // Attributes of the cppcheck error that have no place in vscode.Diagnostic
+    cwe?: string;
+    cppcheckSeverity?: string;
+    verbose?: string;
+    inconclusive?: boolean;
 }
 
 export class DiagnosticMetadataStore {
@@ -57,4 +64,95 @@ export function diagnosticsUnion(diagnosticsA : vscode.Diagnostic[], diagnosticB
     
     // Return result
     return diagnosticsUnion;
-}
\ No newline at end of file
+}
+/*
+ * Keeps all diagnostics set on it, and publishes only those passing the filter to the collection shown in the editor.
+ * The filter is created per file and can change, after which refresh() publishes the diagnostics again, so that
+ * findings can be shown and hidden without analyzing again.
+ */
+export class FilteredDiagnosticCollection implements vscode.DiagnosticCollection {
+    private readonly diagnostics = new Map<string, [vscode.Uri, readonly vscode.Diagnostic[]]>();
+
+    constructor(
+        private readonly shownCollection: vscode.DiagnosticCollection,
+        private readonly createFilter: (uri: vscode.Uri) => (diagnostic: vscode.Diagnostic) => boolean
+    ) {}
+
+    get name(): string {
+        return this.shownCollection.name;
+    }
+
+    set(uri: vscode.Uri, diagnostics: readonly vscode.Diagnostic[] | undefined): void;
+    set(entries: ReadonlyArray<[vscode.Uri, readonly vscode.Diagnostic[] | undefined]>): void;
+    set(
+        uriOrEntries: vscode.Uri | ReadonlyArray<[vscode.Uri, readonly vscode.Diagnostic[] | undefined]>,
+        diagnostics?: readonly vscode.Diagnostic[]
+    ): void {
+        if (uriOrEntries instanceof vscode.Uri) {
+            this.setDiagnostics(uriOrEntries, diagnostics);
+            return;
+        }
+        // Like DiagnosticCollection, entries of the same file are merged and undefined clears the entries before it
+        const merged = new Map<string, [vscode.Uri, vscode.Diagnostic[] | undefined]>();
+        for (const [uri, entryDiagnostics] of uriOrEntries) {
+            const previous = merged.get(uri.toString())?.[1];
+            merged.set(uri.toString(), [uri, entryDiagnostics ? [...(previous ?? []), ...entryDiagnostics] : undefined]);
+        }
+        merged.forEach(([uri, entryDiagnostics]) => this.setDiagnostics(uri, entryDiagnostics));
+    }
+
+    delete(uri: vscode.Uri): void {
+        this.diagnostics.delete(uri.toString());
+        this.shownCollection.delete(uri);
+    }
+
+    clear(): void {
+        this.diagnostics.clear();
+        this.shownCollection.clear();
+    }
+
+    forEach(
+        callback: (uri: vscode.Uri, diagnostics: readonly vscode.Diagnostic[], collection: vscode.DiagnosticCollection) => any,
+        thisArg?: any
+    ): void {
+        // Callbacks may change the collection, so they iterate over a copy
+        for (const [uri, diagnostics] of [...this.diagnostics.values()]) {
+            callback.call(thisArg, uri, diagnostics, this);
+        }
+    }
+
+    get(uri: vscode.Uri): readonly vscode.Diagnostic[] | undefined {
+        return this.diagnostics.get(uri.toString())?.[1];
+    }
+
+    has(uri: vscode.Uri): boolean {
+        return this.diagnostics.has(uri.toString());
+    }
+
+    [Symbol.iterator](): Iterator<[uri: vscode.Uri, diagnostics: readonly vscode.Diagnostic[]]> {
+        return [...this.diagnostics.values()][Symbol.iterator]();
+    }
+
+    // Publishes all diagnostics again with the current filter
+    refresh() {
+        this.diagnostics.forEach(([uri, diagnostics]) => this.publish(uri, diagnostics));
+    }
+
+    dispose() {
+        this.diagnostics.clear();
+        this.shownCollection.dispose();
+    }
+
+    private setDiagnostics(uri: vscode.Uri, diagnostics: readonly vscode.Diagnostic[] | undefined) {
+        if (!diagnostics) {
+            this.delete(uri);
+            return;
+        }
+        this.diagnostics.set(uri.toString(), [uri, diagnostics]);
+        this.publish(uri, diagnostics);
+    }
+
+    private publish(uri: vscode.Uri, diagnostics: readonly vscode.Diagnostic[]) {
+        this.shownCollection.set(uri, diagnostics.filter(this.createFilter(uri)));
+    }
+}
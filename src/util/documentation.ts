@@ -81,11 +81,8 @@ const documentationLinkMap : Record<string, string> = {
   'missingReturn': 'https://cmu-sei.github.io/secure-coding-standards/sei-cert-c-coding-standard/rules/miscellaneous-msc/msc37-c',
 };
 
-function getPremiumCertLink(errorCode: string) : string {
-  // error codes are expected to be on the format of i.e. premium-cert-arr37-c
-  if (!errorCode.includes('premium-cert-')) {
-    return '';
-  }
+function getCertRuleLink(rule: string) : string {
+  // rules are expected to be on the format of i.e. arr37-c
   const basicUrl = 'https://cmu-sei.github.io/secure-coding-standards/sei-cert-c-coding-standard/rules/';
   const categoryMap : Record<string, string> = {
     'arr': 'arrays-arr',
@@ -105,13 +102,35 @@ function getPremiumCertLink(errorCode: string) : string {
     'pre': 'preprocessor-pre',
     'sig': 'signals-sig',
   };
-  const warningLinkSuffix = errorCode.replace('premium-cert-', '');
-  const category = categoryMap[warningLinkSuffix.slice(0,3)];
+  const category = categoryMap[rule.slice(0,3)];
   if (!category) {
     return '';
   }
-  const premiumCertWarningLink = basicUrl + category + '/' + warningLinkSuffix;
-  return premiumCertWarningLink;
+  return basicUrl + category + '/' + rule;
+}
+
+function getPremiumCertLink(errorCode: string) : string {
+  // error codes are expected to be on the format of i.e. premium-cert-arr37-c
+  if (!errorCode.includes('premium-cert-')) {
+    return '';
+  }
+  return getCertRuleLink(errorCode.replace('premium-cert-', ''));
+}
+
+function getAddonLink(errorCode: string) : string {
+  // The cert addon reports i.e. cert-EXP42-C
+  const certRule = /^cert-([a-z]{3}\d{2}-c)$/i.exec(errorCode);
+  if (certRule) {
+    return getCertRuleLink(certRule[1].toLowerCase());
+  }
+  // The misra addon reports i.e. misra-c2012-10.4 and Cppcheck Premium premium-misra-c-2012-10.4,
+  // the rule texts are not public but the example suite is
+  const misraRule = /^(?:premium-)?misra-c-?2012-(dir-)?(\d+)\.(\d+)$/i.exec(errorCode);
+  if (misraRule) {
+    const pad = (n: string) => n.padStart(2, '0');
+    return `https://gitlab.com/MISRA/MISRA-C/MISRA-C-2012/Example-Suite/-/blob/master/${misraRule[1] ? 'D' : 'R'}_${pad(misraRule[2])}_${pad(misraRule[3])}.c`;
+  }
+  return '';
 }
 
-export { documentationLinkMap, getPremiumCertLink };
\ No newline at end of file
+export { documentationLinkMap, getPremiumCertLink, getAddonLink };
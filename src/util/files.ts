@@ -1,34 +1,159 @@
+import * as fs from 'fs';
+import * as path from 'path';
 import * as vscode from 'vscode';
+import { resolvePath } from './path';
 
-export class ProjectFileStore {
-    private projectFileUri : vscode.Uri | undefined;
+export type SuppressionTargetKind = 'projectFile' | 'suppressionsList' | 'suppressionsXml';
 
-    setUri(newProjectFileUri: vscode.Uri) {
-        this.projectFileUri = newProjectFileUri;
+// A file that suppressions can be written to: a .cppcheck project file, or a text or XML suppressions file
+export interface SuppressionTarget {
+    kind: SuppressionTargetKind;
+    uri: vscode.Uri;
+}
+
+// Finds the target in the arguments of an analysis, relative paths are resolved for the workspace folder owning the scope
+// Suppressions files are preferred, since they work with every kind of project
+export function findSuppressionTarget(args: string[], scope?: vscode.Uri) : SuppressionTarget | undefined {
+    const findPath = (prefix: string) => {
+        const arg = args.find((a) => a.startsWith(prefix));
+        return arg ? resolvePath(arg.slice(prefix.length), scope) : undefined;
+    };
+    const listFile = findPath('--suppressions-list=');
+    if (listFile) {
+        return { kind: 'suppressionsList', uri: vscode.Uri.file(listFile) };
+    }
+    const xmlFile = findPath('--suppress-xml=');
+    if (xmlFile) {
+        return { kind: 'suppressionsXml', uri: vscode.Uri.file(xmlFile) };
+    }
+    const projectFile = findPath('--project=');
+    if (projectFile && path.extname(projectFile).toLowerCase() === '.cppcheck') {
+        return { kind: 'projectFile', uri: vscode.Uri.file(projectFile) };
+    }
+    return undefined;
+}
+
+/*
+ * Keeps track of the suppression target of each workspace folder, from the arguments of its last analysis.
+ * Settings are resource scoped, so every workspace folder may write its suppressions to a different file.
+ */
+export class SuppressionTargetStore {
+    private readonly targets = new Map<string, SuppressionTarget | undefined>();
+
+    update(scope : vscode.Uri, args : string[]) {
+        this.targets.set(this.getKey(scope), findSuppressionTarget(args, scope));
+    }
+
+    set(scope : vscode.Uri, target : SuppressionTarget) {
+        this.targets.set(this.getKey(scope), target);
     }
 
-    getUri() {
-        return this.projectFileUri;
+    get(scope : vscode.Uri) : SuppressionTarget | undefined {
+        return this.targets.get(this.getKey(scope));
     }
 
-    hasCppcheckProjectFile() {
-        const uri = this.getUri();
-        if (!uri) {
-            return false;
+    private getKey(scope : vscode.Uri) : string {
+        return vscode.workspace.getWorkspaceFolder(scope)?.uri.toString() ?? '';
+    }
+}
+
+export function describeSuppressionTarget(target : SuppressionTarget) : string {
+    return target.kind === 'projectFile' ? 'project file' : 'suppressions file';
+}
+
+// The text format of --suppressions-list has no way to give a symbol name
+export function supportsSymbolName(target : SuppressionTarget | undefined) : boolean {
+    return target !== undefined && target.kind !== 'suppressionsList';
+}
+
+export async function writeSuppression(target : SuppressionTarget, warningType : string, file? : string, symbolName? : string) : Promise<boolean> {
+    switch (target.kind) {
+        case 'projectFile':
+            return writeSuppressionToProjectFile(target.uri, warningType, file, symbolName);
+        case 'suppressionsList':
+            return writeSuppressionToListFile(target.uri, warningType, file);
+        case 'suppressionsXml':
+            return writeSuppressionToXmlFile(target.uri, warningType, file, symbolName);
+    }
+}
+
+// File paths and symbol names such as operator< may contain characters that are special in XML
+function escapeXml(text : string) : string {
+    return text
+        .replaceAll('&', '&amp;')
+        .replaceAll('<', '&lt;')
+        .replaceAll('>', '&gt;')
+        .replaceAll('"', '&quot;')
+        .replaceAll("'", '&apos;');
+}
+
+async function openOrCreateDocument(uri : vscode.Uri, initialContent : string) : Promise<vscode.TextDocument> {
+    try {
+        await fs.promises.writeFile(uri.fsPath, initialContent, { encoding: 'utf8', flag: 'wx' });
+    } catch (err) {
+        if (!(err instanceof Error && 'code' in err && err.code === 'EEXIST')) {
+            throw err;
         }
-        var projectFileType = uri.path.split('.')[1];
-        return projectFileType.toLowerCase() === 'cppcheck'; 
     }
+    return vscode.workspace.openTextDocument(uri);
+}
+
+// Lines of a suppressions list have the form id[:file[:line]]
+async function writeSuppressionToListFile(listFileUri : vscode.Uri, warningType : string, file? : string) : Promise<boolean> {
+    const document = await openOrCreateDocument(listFileUri, '');
+    const text = document.getText();
+    const suppressionLine = file ? `${warningType}:${file}` : warningType;
+    if (text.split(/\r?\n/).some((line) => line.trim() === suppressionLine)) {
+        return true;
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    const separator = text.length === 0 || text.endsWith('\n') ? '' : '\n';
+    edit.insert(document.uri, document.positionAt(text.length), `${separator}${suppressionLine}\n`);
+    const success = await vscode.workspace.applyEdit(edit);
+    await document.save();
+    return success;
+}
 
-    clear() {
-        this.projectFileUri = undefined;
+// XML suppressions files contain <suppress> elements with <id>, <fileName> and <symbolName> children
+async function writeSuppressionToXmlFile(xmlFileUri : vscode.Uri, warningType : string, file? : string, symbolName? : string) : Promise<boolean> {
+    const document = await openOrCreateDocument(xmlFileUri, '<?xml version="1.0"?>\n<suppressions>\n</suppressions>\n');
+    const text = document.getText();
+    const closeIndex = text.indexOf('</suppressions>');
+    if (closeIndex < 0) {
+        throw new Error(`Suppressions file ${xmlFileUri.fsPath} has no <suppressions> element`);
     }
+
+    const closingLine = document.lineAt(document.positionAt(closeIndex).line);
+    const indentation = closingLine.text.match(/^\s*/)?.[0] ?? '';
+    const childIndentation = `${indentation}    `;
+    let suppression = `${childIndentation}<suppress>\n${childIndentation}    <id>${escapeXml(warningType)}</id>\n`;
+    if (file) {
+        suppression += `${childIndentation}    <fileName>${escapeXml(file)}</fileName>\n`;
+    }
+    if (symbolName) {
+        suppression += `${childIndentation}    <symbolName>${escapeXml(symbolName)}</symbolName>\n`;
+    }
+    suppression += `${childIndentation}</suppress>\n`;
+
+    // The suppression is inserted on its own lines just before the closing tag
+    const edit = new vscode.WorkspaceEdit();
+    const closingLineStart = document.offsetAt(closingLine.range.start);
+    const insertAtLineStart = text.slice(closingLineStart, closeIndex).trim() === '';
+    edit.insert(
+        document.uri,
+        document.positionAt(insertAtLineStart ? closingLineStart : closeIndex),
+        insertAtLineStart ? suppression : `\n${suppression}`
+    );
+    const success = await vscode.workspace.applyEdit(edit);
+    await document.save();
+    return success;
 }
 
-export async function writeSuppressionToProjectFile(projectFileUri : vscode.Uri, warningType : String, file? : String, symbolName? : String) : Promise<boolean> {
-    const fileType = projectFileUri.toString().split('.')[1];
-    if (fileType !== 'cppcheck') {
-        throw new Error(`Function writeSuppressionToProjectFile only supports writing to .cppcheck project files! Recieved file is of type .${fileType}`);
+export async function writeSuppressionToProjectFile(projectFileUri : vscode.Uri, warningType : string, file? : string, symbolName? : string) : Promise<boolean> {
+    const fileType = path.extname(projectFileUri.fsPath).toLowerCase();
+    if (fileType !== '.cppcheck') {
+        throw new Error(`Function writeSuppressionToProjectFile only supports writing to .cppcheck project files! Recieved file is of type ${fileType}`);
     }
 
     // Open project file with vscode workspace API
@@ -41,10 +166,10 @@ export async function writeSuppressionToProjectFile(projectFileUri : vscode.Uri,
     // If file or symbolName is specified we set up that part of the suppression block
     let options = '';
     if (file) {
-        options = ` file="${file}"`;
+        options = ` file="${escapeXml(file)}"`;
     }
     if (symbolName) {
-        options += ` symbolName="${symbolName}"`;
+        options += ` symbolName="${escapeXml(symbolName)}"`;
     }
 
     // Search for suppressions section
@@ -56,7 +181,7 @@ export async function writeSuppressionToProjectFile(projectFileUri : vscode.Uri,
         // Determine indentation and construct the new suppression line
         const endOfSuppressionsBlockLine = document.lineAt(document.positionAt(closeIndex).line);
         const indentation = endOfSuppressionsBlockLine.text.match(/^\s*/)?.[0] ?? "    ";
-        const newSuppressionLine = `${indentation}<suppression${options}>${warningType}</suppression>\n${indentation}`;
+        const newSuppressionLine = `${indentation}<suppression${options}>${escapeXml(warningType)}</suppression>\n${indentation}`;
 
         // We splice in the new line just before the end of the suppressions block
         textToInsert = newSuppressionLine;
@@ -68,7 +193,7 @@ export async function writeSuppressionToProjectFile(projectFileUri : vscode.Uri,
         // Determine indentation and construct the new suppressions block
         const line = document.lineAt(document.positionAt(closeIndex).line - 1);
         const indentation = line.text.match(/^\s*/)?.[0] ?? "    ";
-        const suppressionsBlock = `${indentation}<suppressions>\n${indentation}    <suppression${options}>${warningType}</suppression>\n${indentation}</suppressions>\n`;
+        const suppressionsBlock = `${indentation}<suppressions>\n${indentation}    <suppression${options}>${escapeXml(warningType)}</suppression>\n${indentation}</suppressions>\n`;
 
         // Splice in the new suppressions block just before the end of the project-file
         textToInsert = suppressionsBlock;
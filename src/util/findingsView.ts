@@ -0,0 +1,185 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { DiagnosticMetadataStore } from './diagnostics';
+import { CppcheckSeverity, cppcheckSeverities, toCppcheckSeverity } from './severity';
+
+export type FindingsGrouping = 'file' | 'checker' | 'severity';
+
+const severityIcons: Record<vscode.DiagnosticSeverity, vscode.ThemeIcon> = {
+    [vscode.DiagnosticSeverity.Error]: new vscode.ThemeIcon('error', new vscode.ThemeColor('problemsErrorIcon.foreground')),
+    [vscode.DiagnosticSeverity.Warning]: new vscode.ThemeIcon('warning', new vscode.ThemeColor('problemsWarningIcon.foreground')),
+    [vscode.DiagnosticSeverity.Information]: new vscode.ThemeIcon('info', new vscode.ThemeColor('problemsInfoIcon.foreground')),
+    [vscode.DiagnosticSeverity.Hint]: new vscode.ThemeIcon('lightbulb'),
+};
+
+function getDiagnosticCode(diagnostic: vscode.Diagnostic): string {
+    const code = diagnostic.code;
+    if (typeof(code) === "object" && code !== null) {
+        return String(code.value);
+    }
+    return String(code ?? '');
+}
+
+// A single warning, opening its location when selected
+export class FindingItem extends vscode.TreeItem {
+    readonly code: string;
+
+    constructor(
+        readonly uri: vscode.Uri,
+        readonly diagnostic: vscode.Diagnostic,
+        readonly cppcheckSeverity: CppcheckSeverity,
+        grouping: FindingsGrouping
+    ) {
+        super(diagnostic.message, vscode.TreeItemCollapsibleState.None);
+        this.code = getDiagnosticCode(diagnostic);
+        const line = diagnostic.range.start.line + 1;
+        const location = `${path.basename(uri.fsPath)}:${line}`;
+        this.description = grouping === 'file'
+            ? `${this.code} [Ln ${line}]`
+            : grouping === 'checker' ? location : `${this.code} ${location}`;
+        this.tooltip = `${vscode.workspace.asRelativePath(uri)}:${line}\n${this.code}: ${diagnostic.message}`;
+        this.iconPath = severityIcons[diagnostic.severity];
+        // Unmatched suppressions are removed rather than suppressed, so they get no suppression actions
+        this.contextValue = this.code === 'unmatchedSuppression' ? 'cppcheckUnmatchedSuppression' : 'cppcheckFinding';
+        this.command = {
+            command: 'vscode.open',
+            title: 'Open Location',
+            arguments: [uri, { selection: diagnostic.range }],
+        };
+    }
+}
+
+// A file, checker ID or severity with the findings belonging to it
+export class FindingGroupItem extends vscode.TreeItem {
+    constructor(label: string, readonly findings: FindingItem[]) {
+        super(label, vscode.TreeItemCollapsibleState.Collapsed);
+        this.description = `${findings.length}`;
+        this.contextValue = 'cppcheckFindingGroup';
+    }
+}
+
+type FindingsTreeElement = FindingGroupItem | FindingItem;
+
+/*
+ * Shows the diagnostics of the Cppcheck diagnostic collection as a tree, grouped by file, checker ID or severity.
+ * The tree is rebuilt whenever the diagnostics change.
+ */
+export class FindingsTreeProvider implements vscode.TreeDataProvider<FindingsTreeElement>, vscode.Disposable {
+    private readonly onDidChangeTreeDataEmitter = new vscode.EventEmitter<void>();
+    readonly onDidChangeTreeData = this.onDidChangeTreeDataEmitter.event;
+    private readonly diagnosticsListener: vscode.Disposable;
+    // Files with findings when the tree was last refreshed, whose findings may have been removed from the collection since
+    private shownFiles = new Set<string>();
+
+    constructor(
+        private readonly diagnosticCollection: vscode.DiagnosticCollection,
+        private readonly metadataStore: DiagnosticMetadataStore,
+        private grouping: FindingsGrouping
+    ) {
+        // Other extensions change their diagnostics all the time, only changes of the files with findings rebuild the tree
+        this.diagnosticsListener = vscode.languages.onDidChangeDiagnostics((event) => {
+            if (event.uris.some((uri) => this.shownFiles.has(uri.toString()) || this.diagnosticCollection.has(uri))) {
+                this.refresh();
+            }
+        });
+    }
+
+    getGrouping(): FindingsGrouping {
+        return this.grouping;
+    }
+
+    setGrouping(grouping: FindingsGrouping) {
+        this.grouping = grouping;
+        this.refresh();
+    }
+
+    getFindingCount(): number {
+        let count = 0;
+        this.diagnosticCollection.forEach((uri, diagnostics) => {
+            count += diagnostics.length;
+        });
+        return count;
+    }
+
+    refresh() {
+        this.shownFiles = new Set<string>();
+        this.diagnosticCollection.forEach((uri) => this.shownFiles.add(uri.toString()));
+        this.onDidChangeTreeDataEmitter.fire();
+    }
+
+    getTreeItem(element: FindingsTreeElement): vscode.TreeItem {
+        return element;
+    }
+
+    getChildren(element?: FindingsTreeElement): FindingsTreeElement[] {
+        if (element instanceof FindingGroupItem) {
+            return element.findings;
+        }
+        if (element) {
+            return [];
+        }
+        return this.createGroups();
+    }
+
+    dispose() {
+        this.diagnosticsListener.dispose();
+        this.onDidChangeTreeDataEmitter.dispose();
+    }
+
+    private createGroups(): FindingGroupItem[] {
+        const findings: FindingItem[] = [];
+        this.diagnosticCollection.forEach((uri, diagnostics) => {
+            for (const diagnostic of diagnostics) {
+                const cppcheckSeverity = toCppcheckSeverity(this.metadataStore.get(diagnostic)?.cppcheckSeverity);
+                findings.push(new FindingItem(uri, diagnostic, cppcheckSeverity, this.grouping));
+            }
+        });
+        findings.sort((a, b) =>
+            a.uri.fsPath.localeCompare(b.uri.fsPath) || a.diagnostic.range.start.line - b.diagnostic.range.start.line);
+
+        const groups = new Map<string, FindingItem[]>();
+        for (const finding of findings) {
+            const key = this.getGroupKey(finding);
+            groups.set(key, [...(groups.get(key) ?? []), finding]);
+        }
+
+        const groupItems = [...groups.entries()].map(([key, groupFindings]) => this.createGroupItem(key, groupFindings));
+        if (this.grouping === 'severity') {
+            return groupItems.sort((a, b) =>
+                cppcheckSeverities.indexOf(a.findings[0].cppcheckSeverity) - cppcheckSeverities.indexOf(b.findings[0].cppcheckSeverity));
+        }
+        // Files are already in order, checkers are sorted by the number of findings
+        if (this.grouping === 'checker') {
+            return groupItems.sort((a, b) => b.findings.length - a.findings.length || String(a.label).localeCompare(String(b.label)));
+        }
+        return groupItems;
+    }
+
+    private getGroupKey(finding: FindingItem): string {
+        switch (this.grouping) {
+            case 'file':
+                return finding.uri.toString();
+            case 'checker':
+                return finding.code;
+            case 'severity':
+                // The severity reported by cppcheck, as several of them may be shown with the same editor severity
+                return finding.cppcheckSeverity;
+        }
+    }
+
+    private createGroupItem(key: string, findings: FindingItem[]): FindingGroupItem {
+        if (this.grouping === 'file') {
+            const uri = findings[0].uri;
+            const groupItem = new FindingGroupItem(path.basename(uri.fsPath), findings);
+            groupItem.resourceUri = uri;
+            groupItem.tooltip = vscode.workspace.asRelativePath(uri);
+            groupItem.iconPath = vscode.ThemeIcon.File;
+            return groupItem;
+        }
+        const groupItem = new FindingGroupItem(key, findings);
+        groupItem.iconPath = this.grouping === 'severity'
+            ? severityIcons[findings[0].diagnostic.severity]
+            : new vscode.ThemeIcon('symbol-event');
+        return groupItem;
+    }
+}
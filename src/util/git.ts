@@ -0,0 +1,115 @@
+import { execFile } from 'child_process';
+import * as path from 'path';
+import util from 'util';
+import { CppcheckLogger } from './logging';
+
+const execFileAsync = util.promisify(execFile);
+
+export type AnalysisScope = 'all' | 'changedLines' | 'changedFiles';
+
+// Lines (1-indexed) changed in a file, 'all' if the whole file counts as changed, undefined if it is unchanged
+type FileChanges = Set<number> | 'all' | undefined;
+
+async function runGit(args: string[], cwd: string): Promise<string> {
+    const { stdout } = await execFileAsync('git', args, { cwd, maxBuffer: 64 * 1024 * 1024 });
+    return stdout;
+}
+
+// Hunk headers of a diff without context look like '@@ -12,3 +14,5 @@', where 14,5 are the lines in the working tree
+export function parseChangedLines(diff: string): Set<number> {
+    const lines = new Set<number>();
+    for (const match of diff.matchAll(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/gm)) {
+        const start = Number(match[1]);
+        const count = match[2] === undefined ? 1 : Number(match[2]);
+        for (let line = start; line < start + count; line++) {
+            lines.add(line);
+        }
+    }
+    return lines;
+}
+
+/*
+ * Compares the working tree with a git base ref, using the git binary on the PATH.
+ * Branch names are compared from their merge base with HEAD, so that only changes of the current branch count.
+ * Files outside of a git repository, or that cannot be compared, count as changed entirely.
+ */
+export class GitChanges {
+    private readonly baseCommits = new Map<string, Promise<string>>();
+    private readonly fileChanges = new Map<string, Promise<FileChanges>>();
+
+    constructor(private readonly baseRef: string, private readonly logger: CppcheckLogger) {}
+
+    // Files changed relative to the base ref in the repository containing the directory, including untracked files
+    async getChangedFiles(directory: string): Promise<string[]> {
+        try {
+            const root = (await runGit(['rev-parse', '--show-toplevel'], directory)).trim();
+            const base = await this.getBaseCommit(root);
+            // Paths are separated by NUL, as git quotes paths with spaces or non-ASCII characters otherwise
+            const changed = await runGit(['diff', '--name-only', '-z', '--no-renames', '--diff-filter=d', base, '--'], root);
+            const untracked = await runGit(['ls-files', '-z', '--others', '--exclude-standard'], root);
+            return [...changed.split('\0'), ...untracked.split('\0')]
+                .filter((file) => file)
+                .map((file) => path.join(root, file));
+        } catch (err) {
+            const message = err instanceof Error ? err.message : String(err);
+            this.logger.error(`Could not find files changed relative to '${this.baseRef}' in ${directory}: ${message}`);
+            return [];
+        }
+    }
+
+    async isFileChanged(filePath: string): Promise<boolean> {
+        return (await this.getFileChanges(filePath)) !== undefined;
+    }
+
+    async isLineChanged(filePath: string, line: number): Promise<boolean> {
+        const changes = await this.getFileChanges(filePath);
+        return changes === 'all' || (changes?.has(line) ?? false);
+    }
+
+    private getFileChanges(filePath: string): Promise<FileChanges> {
+        let changes = this.fileChanges.get(filePath);
+        if (!changes) {
+            changes = this.readFileChanges(filePath);
+            this.fileChanges.set(filePath, changes);
+        }
+        return changes;
+    }
+
+    private async readFileChanges(filePath: string): Promise<FileChanges> {
+        const directory = path.dirname(filePath);
+        let root: string;
+        try {
+            root = (await runGit(['rev-parse', '--show-toplevel'], directory)).trim();
+        } catch {
+            this.logger.debug(`${filePath} is not in a git repository, all of its findings are shown`);
+            return 'all';
+        }
+        try {
+            const untracked = await runGit(['ls-files', '-z', '--others', '--exclude-standard', '--', filePath], root);
+            if (untracked) {
+                return 'all';
+            }
+            const base = await this.getBaseCommit(root);
+            const diff = await runGit(['diff', '-U0', '--no-color', '--no-ext-diff', base, '--', filePath], root);
+            if (!diff.trim()) {
+                return undefined;
+            }
+            return parseChangedLines(diff);
+        } catch (err) {
+            const message = err instanceof Error ? err.message : String(err);
+            this.logger.error(`Could not compare ${filePath} with '${this.baseRef}': ${message}`);
+            return 'all';
+        }
+    }
+
+    private getBaseCommit(root: string): Promise<string> {
+        let base = this.baseCommits.get(root);
+        if (!base) {
+            base = runGit(['merge-base', this.baseRef, 'HEAD'], root)
+                .then((stdout) => stdout.trim())
+                .catch(() => this.baseRef);
+            this.baseCommits.set(root, base);
+        }
+        return base;
+    }
+}
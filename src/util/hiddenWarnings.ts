@@ -0,0 +1,57 @@
+import * as vscode from 'vscode';
+
+// A warning hidden by the user, identified by the same fingerprint as baseline entries so it stays hidden when code moves,
+// while a repeated line with the same warning stays visible (see createBaselineEntry)
+export interface HiddenWarning {
+    checkerId: string;
+    file: string;
+    line: number;
+    message: string;
+    fingerprint: string;
+}
+
+const hiddenWarningsKey = 'cppcheck-official.hiddenWarnings';
+const hiddenWarningTypesKey = 'cppcheck-official.hiddenWarningTypes';
+
+/*
+ * Keeps the warnings and warning types hidden with the hide commands in the workspace state, so that they stay hidden
+ * after analyzing again and across sessions until they are restored.
+ */
+export class HiddenWarningStore {
+    constructor(private readonly state: vscode.Memento) {}
+
+    getWarnings(): HiddenWarning[] {
+        return this.state.get<HiddenWarning[]>(hiddenWarningsKey, []);
+    }
+
+    getTypes(): string[] {
+        return this.state.get<string[]>(hiddenWarningTypesKey, []);
+    }
+
+    isHidden(checkerId: string, fingerprint: string): boolean {
+        return this.getTypes().includes(checkerId)
+            || this.getWarnings().some((warning) => warning.fingerprint === fingerprint);
+    }
+
+    async hideWarning(warning: HiddenWarning) {
+        const warnings = this.getWarnings().filter((w) => w.fingerprint !== warning.fingerprint);
+        await this.state.update(hiddenWarningsKey, [...warnings, warning]);
+    }
+
+    async hideType(checkerId: string) {
+        const types = this.getTypes();
+        if (!types.includes(checkerId)) {
+            await this.state.update(hiddenWarningTypesKey, [...types, checkerId]);
+        }
+    }
+
+    async restore(fingerprints: string[], checkerIds: string[]) {
+        await this.state.update(hiddenWarningsKey, this.getWarnings().filter((w) => !fingerprints.includes(w.fingerprint)));
+        await this.state.update(hiddenWarningTypesKey, this.getTypes().filter((type) => !checkerIds.includes(type)));
+    }
+
+    async restoreAll() {
+        await this.state.update(hiddenWarningsKey, undefined);
+        await this.state.update(hiddenWarningTypesKey, undefined);
+    }
+}
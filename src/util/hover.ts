@@ -0,0 +1,74 @@
+import * as vscode from 'vscode';
+import { DiagnosticMetadataStore } from './diagnostics';
+import { inconclusiveMessagePrefix } from './severity';
+
+/*
+ * Shows the details cppcheck reports for a finding that the diagnostic itself has no place for: the verbose message,
+ * the CWE ID, whether the finding is inconclusive and the severity as reported by cppcheck, which is more specific than
+ * the severity of the diagnostic (style, performance and portability are all shown as information by default).
+ */
+export class DiagnosticHoverProvider implements vscode.HoverProvider {
+    constructor(
+        private readonly diagnosticCollection: vscode.DiagnosticCollection,
+        private readonly metadataStore: DiagnosticMetadataStore
+    ) {}
+
+    provideHover(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined {
+        const diagnostics = (this.diagnosticCollection.get(document.uri) ?? [])
+            .filter((diagnostic) => diagnostic.range.contains(position));
+        const contents = diagnostics
+            .map((diagnostic) => this.createHoverContent(diagnostic))
+            .filter((content): content is vscode.MarkdownString => content !== undefined);
+        if (contents.length === 0) {
+            return undefined;
+        }
+        return new vscode.Hover(contents, diagnostics[0].range);
+    }
+
+    private createHoverContent(diagnostic: vscode.Diagnostic): vscode.MarkdownString | undefined {
+        const metadata = this.metadataStore.get(diagnostic);
+        if (!metadata) {
+            return undefined;
+        }
+        const code = diagnostic.code;
+        const checkerId = typeof(code) === "object" && code !== null ? String(code.value) : String(code ?? '');
+        const documentationUrl = typeof(code) === "object" && code !== null ? code.target.toString() : undefined;
+
+        const content = new vscode.MarkdownString();
+        content.appendMarkdown('**Cppcheck** ');
+        content.appendMarkdown(documentationUrl ? `[\`${checkerId}\`](${documentationUrl})` : `\`${checkerId}\``);
+        const properties: string[] = [];
+        if (metadata.cppcheckSeverity) {
+            properties.push(`severity: ${metadata.cppcheckSeverity}`);
+        }
+        if (metadata.inconclusive) {
+            properties.push('inconclusive');
+        }
+        if (properties.length > 0) {
+            content.appendText(` (${properties.join(', ')})`);
+        }
+
+        // The verbose message often just repeats the message shown by the diagnostic
+        const message = metadata.inconclusive ? diagnostic.message.slice(inconclusiveMessagePrefix.length) : diagnostic.message;
+        if (metadata.verbose && metadata.verbose !== message) {
+            content.appendMarkdown('\n\n');
+            content.appendText(metadata.verbose);
+        }
+        if (metadata.inconclusive) {
+            content.appendMarkdown('\n\n');
+            content.appendText('Cppcheck is not sure about this finding, it may be a false positive.');
+        }
+
+        const links: string[] = [];
+        if (metadata.cwe && metadata.cwe !== '0') {
+            links.push(`[CWE-${metadata.cwe}](https://cwe.mitre.org/data/definitions/${metadata.cwe}.html)`);
+        }
+        if (documentationUrl) {
+            links.push(`[Documentation](${documentationUrl})`);
+        }
+        if (links.length > 0) {
+            content.appendMarkdown(`\n\n${links.join(' · ')}`);
+        }
+        return content;
+    }
+}
@@ -0,0 +1,82 @@
+import * as vscode from 'vscode';
+
+const logLevels = ['off', 'error', 'warning', 'info', 'debug', 'trace'] as const;
+type LogLevel = typeof logLevels[number];
+
+/*
+ * Writes to the Cppcheck log output channel. Messages below the cppcheck-official.logLevel setting are dropped.
+ * Note that VS Code additionally filters the channel by its own log level, which can be changed from the Output view.
+ */
+export class CppcheckLogger implements vscode.Disposable {
+    private readonly channel: vscode.LogOutputChannel;
+    private readonly configurationListener: vscode.Disposable;
+    private level: LogLevel = 'info';
+
+    constructor() {
+        this.channel = vscode.window.createOutputChannel('Cppcheck', { log: true });
+        this.updateLevel();
+        this.configurationListener = vscode.workspace.onDidChangeConfiguration((event) => {
+            if (event.affectsConfiguration('cppcheck-official.logLevel')) {
+                this.updateLevel();
+            }
+        });
+    }
+
+    isEnabled(level: LogLevel): boolean {
+        return level !== 'off' && logLevels.indexOf(level) <= logLevels.indexOf(this.level);
+    }
+
+    error(message: string) {
+        if (this.isEnabled('error')) {
+            this.channel.error(message);
+        }
+    }
+
+    warn(message: string) {
+        if (this.isEnabled('warning')) {
+            this.channel.warn(message);
+        }
+    }
+
+    info(message: string) {
+        if (this.isEnabled('info')) {
+            this.channel.info(message);
+        }
+    }
+
+    debug(message: string) {
+        if (this.isEnabled('debug')) {
+            this.channel.debug(message);
+        }
+    }
+
+    trace(message: string) {
+        if (this.isEnabled('trace')) {
+            this.channel.trace(message);
+        }
+    }
+
+    show() {
+        this.channel.show(true);
+    }
+
+    dispose() {
+        this.configurationListener.dispose();
+        this.channel.dispose();
+    }
+
+    private updateLevel() {
+        const level = vscode.workspace.getConfiguration('cppcheck-official').get<string>('logLevel', 'info');
+        this.level = (logLevels as readonly string[]).includes(level) ? level as LogLevel : 'info';
+    }
+}
+
+// Shows an error notification with a button that opens the log, where details of the failure can be found
+export function showErrorWithLog(message: string) {
+    const showLogAction = 'Show Cppcheck Log';
+    vscode.window.showErrorMessage(message, showLogAction).then((selection) => {
+        if (selection === showLogAction) {
+            vscode.commands.executeCommand('cppcheck-official.showLog');
+        }
+    });
+}
@@ -14,7 +14,12 @@ export function looksLikePath(arg: string): boolean {
     return false;
 }
 
-export function findWorkspaceRoot(): string {
+export function findWorkspaceRoot(scope?: vscode.Uri): string {
+    // In multi-root workspaces the root is the workspace folder owning the scope, falling back to the first folder
+    const scopeFolder = scope ? vscode.workspace.getWorkspaceFolder(scope) : undefined;
+    if (scopeFolder) {
+        return scopeFolder.uri.fsPath;
+    }
     const folders = vscode.workspace.workspaceFolders;
     const workspaceRoot = folders && folders.length > 0
         ? folders[0].uri.fsPath
@@ -22,12 +27,18 @@ export function findWorkspaceRoot(): string {
     return workspaceRoot;
 }
 
-export function resolvePath(argPath: string): string {
-    const workspaceRoot = findWorkspaceRoot();
+export function resolvePath(argPath: string, scope?: vscode.Uri): string {
+    const workspaceRoot = findWorkspaceRoot(scope);
+
+    // Expand ${workspaceFolder:name} to the workspace folder with that name
+    argPath = argPath.replace(/\$\{workspaceFolder:([^}]+)\}/g, (match, folderName: string) => {
+        const folder = vscode.workspace.workspaceFolders?.find((f) => f.name === folderName);
+        return folder ? folder.uri.fsPath : match;
+    });
 
     // Expand ${workspaceFolder}
     if (argPath.includes("${workspaceFolder}")) {
-        argPath = argPath.replace("${workspaceFolder}", workspaceRoot);
+        argPath = argPath.replaceAll("${workspaceFolder}", workspaceRoot);
     }
 
     // Expand tilde (~) to home directory
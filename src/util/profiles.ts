@@ -0,0 +1,47 @@
+import * as vscode from 'vscode';
+
+// Named set of settings for an analysis, from cppcheck-official.profiles. Settings a profile leaves out are taken from the
+// regular settings
+export interface AnalysisProfile {
+    name: string;
+    path?: string;
+    // Replace both cppcheck-official.arguments and cppcheck-official.argumentList when either is given
+    arguments?: string;
+    argumentList?: string[];
+    project?: string;
+    severities?: string[];
+}
+
+export function getProfiles(scope?: vscode.Uri): AnalysisProfile[] {
+    const profiles = vscode.workspace.getConfiguration('cppcheck-official', scope).get<AnalysisProfile[]>('profiles', []);
+    // Profiles are picked by name, so entries without one cannot be used
+    return (Array.isArray(profiles) ? profiles : []).filter((profile) => typeof(profile?.name) === 'string' && profile.name.trim() !== '');
+}
+
+export function findProfile(name: string, scope?: vscode.Uri): AnalysisProfile | undefined {
+    return getProfiles(scope).find((profile) => profile.name === name);
+}
+
+// The profile selected with cppcheck-official.activeProfile, undefined if no profile is selected or it does not exist
+export function getActiveProfile(scope?: vscode.Uri): AnalysisProfile | undefined {
+    const name = vscode.workspace.getConfiguration('cppcheck-official', scope).get<string>('activeProfile', '').trim();
+    return name ? findProfile(name, scope) : undefined;
+}
+
+// Describes what a profile changes, for the items of the profile pickers
+export function describeProfile(profile: AnalysisProfile): string {
+    const parts: string[] = [];
+    if (profile.arguments !== undefined || profile.argumentList !== undefined) {
+        parts.push([profile.arguments ?? '', ...(profile.argumentList ?? [])].join(' ').trim() || 'no arguments');
+    }
+    if (profile.project !== undefined) {
+        parts.push(`project ${profile.project || 'none'}`);
+    }
+    if (profile.path) {
+        parts.push(profile.path);
+    }
+    if (profile.severities) {
+        parts.push(`severities: ${profile.severities.join(', ') || 'none'}`);
+    }
+    return parts.join(' · ');
+}
@@ -0,0 +1,112 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { CppcheckLogger } from './logging';
+
+// The parts of the CMake Tools extension API (version 1) used to find the build directory
+interface CMakeToolsProject {
+    onCodeModelChanged: vscode.Event<void>;
+    getBuildDirectory(): Promise<string | undefined>;
+}
+
+interface CMakeToolsApi {
+    getProject(path: vscode.Uri): Promise<CMakeToolsProject | undefined>;
+}
+
+interface CMakeToolsExtensionExports {
+    getApi(version: number): CMakeToolsApi;
+}
+
+const cmakeToolsExtensionId = 'ms-vscode.cmake-tools';
+const compileCommandsFileName = 'compile_commands.json';
+// Directories relative to the workspace folder where compile_commands.json is commonly generated
+const compileCommandsDirectories = ['', 'build'];
+
+/*
+ * Finds the compile_commands.json to use for a workspace folder, looking at the build directory reported by the
+ * CMake Tools extension first, then at the workspace folder root and its build directory.
+ * Fires onDidChange with the file when a compile_commands.json is created, changed or deleted, or without one when
+ * CMake Tools reconfigures.
+ */
+export class CompileCommandsLocator implements vscode.Disposable {
+    private readonly onDidChangeEmitter = new vscode.EventEmitter<vscode.Uri | undefined>();
+    readonly onDidChange = this.onDidChangeEmitter.event;
+    private readonly disposables: vscode.Disposable[] = [];
+    private readonly subscribedProjects = new WeakSet<CMakeToolsProject>();
+    // The file found when each workspace folder was last looked up
+    private readonly lastFound = new Map<string, string | undefined>();
+
+    constructor(private readonly logger: CppcheckLogger) {
+        const watcher = vscode.workspace.createFileSystemWatcher(`**/${compileCommandsFileName}`);
+        const fireChange = (uri: vscode.Uri) => this.onDidChangeEmitter.fire(uri);
+        this.disposables.push(
+            watcher,
+            watcher.onDidChange(fireChange),
+            watcher.onDidCreate(fireChange),
+            watcher.onDidDelete(fireChange),
+            this.onDidChangeEmitter
+        );
+    }
+
+    async find(folder: vscode.WorkspaceFolder): Promise<string | undefined> {
+        const candidates: string[] = [];
+
+        const cmakeBuildDirectory = await this.getCMakeBuildDirectory(folder);
+        if (cmakeBuildDirectory) {
+            candidates.push(path.join(cmakeBuildDirectory, compileCommandsFileName));
+        }
+        for (const directory of compileCommandsDirectories) {
+            candidates.push(path.join(folder.uri.fsPath, directory, compileCommandsFileName));
+        }
+
+        let found: string | undefined;
+        for (const candidate of candidates) {
+            try {
+                await fs.promises.access(candidate, fs.constants.R_OK);
+                found = candidate;
+                break;
+            } catch {
+                // Try next candidate
+            }
+        }
+        this.lastFound.set(folder.uri.toString(), found);
+        return found;
+    }
+
+    // Whether the file is the compile_commands.json of the folder, as it is found now or as it was found before, since
+    // a file that has just been deleted or replaced by another candidate was in use until now
+    async isInUse(folder: vscode.WorkspaceFolder, file: string): Promise<boolean> {
+        const previous = this.lastFound.get(folder.uri.toString());
+        const current = await this.find(folder);
+        return [previous, current].some((found) => found !== undefined && path.normalize(found) === path.normalize(file));
+    }
+
+    dispose() {
+        this.disposables.forEach((disposable) => disposable.dispose());
+    }
+
+    private async getCMakeBuildDirectory(folder: vscode.WorkspaceFolder): Promise<string | undefined> {
+        // CMake Tools is not activated by us, it activates itself in workspaces using CMake
+        const extension = vscode.extensions.getExtension<CMakeToolsExtensionExports>(cmakeToolsExtensionId);
+        if (!extension?.isActive) {
+            return undefined;
+        }
+        try {
+            const project = await extension.exports.getApi(1).getProject(folder.uri);
+            if (!project) {
+                return undefined;
+            }
+            // Reconfiguring may move or regenerate compile_commands.json
+            if (!this.subscribedProjects.has(project)) {
+                this.subscribedProjects.add(project);
+                this.disposables.push(project.onCodeModelChanged(() => this.onDidChangeEmitter.fire(undefined)));
+            }
+            const buildDirectory = await project.getBuildDirectory();
+            this.logger.debug(`CMake Tools build directory for ${folder.name}: ${buildDirectory}`);
+            return buildDirectory;
+        } catch (err) {
+            this.logger.warn(`Failed to get build directory from CMake Tools: ${err}`);
+            return undefined;
+        }
+    }
+}
@@ -0,0 +1,251 @@
+import * as vscode from 'vscode';
+import { DiagnosticMetadataStore } from './diagnostics';
+
+export type ReportFormat = 'sarif' | 'json' | 'html';
+
+interface ReportLocation {
+    file: string;
+    line: number;
+    column: number;
+    message?: string;
+}
+
+interface ReportFinding {
+    checkerId: string;
+    // Severity reported by cppcheck, and the severity the finding is shown with in the editor
+    severity: string;
+    level: string;
+    message: string;
+    location: ReportLocation;
+    relatedLocations: ReportLocation[];
+    symbol?: string;
+    cwe?: string;
+    documentationUrl?: string;
+    inconclusive?: boolean;
+}
+
+interface ReportTool {
+    name: string;
+    version?: string;
+}
+
+const severityNames: Record<vscode.DiagnosticSeverity, string> = {
+    [vscode.DiagnosticSeverity.Error]: 'error',
+    [vscode.DiagnosticSeverity.Warning]: 'warning',
+    [vscode.DiagnosticSeverity.Information]: 'information',
+    [vscode.DiagnosticSeverity.Hint]: 'hint',
+};
+
+const sarifLevels: Record<string, string> = {
+    error: 'error',
+    warning: 'warning',
+    information: 'note',
+    hint: 'note',
+};
+
+function toReportLocation(uri: vscode.Uri, range: vscode.Range, message?: string): ReportLocation {
+    // Reports use the 1-indexed line and column numbers of cppcheck
+    return { file: uri.fsPath, line: range.start.line + 1, column: range.start.character + 1, message };
+}
+
+// Collects the findings of the diagnostic collection together with the metadata kept for them
+export function collectReportFindings(
+    diagnosticCollection: vscode.DiagnosticCollection,
+    metadataStore: DiagnosticMetadataStore
+): ReportFinding[] {
+    const findings: ReportFinding[] = [];
+    diagnosticCollection.forEach((uri, diagnostics) => {
+        for (const diagnostic of diagnostics) {
+            const code = diagnostic.code;
+            const checkerId = typeof(code) === "object" && code !== null ? String(code.value) : String(code ?? '');
+            const documentationUrl = typeof(code) === "object" && code !== null ? code.target.toString() : undefined;
+            const metadata = metadataStore.get(diagnostic);
+            findings.push({
+                checkerId,
+                severity: metadata?.cppcheckSeverity ?? severityNames[diagnostic.severity],
+                level: severityNames[diagnostic.severity],
+                message: diagnostic.message,
+                location: toReportLocation(uri, diagnostic.range),
+                relatedLocations: (diagnostic.relatedInformation ?? []).map((info) =>
+                    toReportLocation(info.location.uri, info.location.range, info.message)),
+                symbol: metadata?.symbolName || undefined,
+                cwe: metadata?.cwe || undefined,
+                documentationUrl,
+                inconclusive: metadata?.inconclusive || undefined,
+            });
+        }
+    });
+    findings.sort((a, b) => a.location.file.localeCompare(b.location.file) || a.location.line - b.location.line);
+    return findings;
+}
+
+// Files inside a workspace folder are referenced relative to it, so that reports can be shared between machines
+function toSarifArtifactLocation(file: string) {
+    const uri = vscode.Uri.file(file);
+    const folder = vscode.workspace.getWorkspaceFolder(uri);
+    if (!folder) {
+        return { uri: uri.toString() };
+    }
+    return {
+        uri: vscode.workspace.asRelativePath(uri, false).replaceAll('\\', '/'),
+        uriBaseId: getSarifBaseId(folder),
+    };
+}
+
+function getSarifBaseId(folder: vscode.WorkspaceFolder): string {
+    return folder.index === 0 ? 'SRCROOT' : `SRCROOT${folder.index}`;
+}
+
+function toSarifPhysicalLocation(location: ReportLocation) {
+    return {
+        artifactLocation: toSarifArtifactLocation(location.file),
+        region: { startLine: location.line, startColumn: location.column },
+    };
+}
+
+function createSarifReport(findings: ReportFinding[], tool: ReportTool) {
+    const ruleIds = [...new Set(findings.map((finding) => finding.checkerId))].sort();
+    const rules = ruleIds.map((id) => {
+        const finding = findings.find((f) => f.checkerId === id)!;
+        return {
+            id,
+            ...(finding.documentationUrl ? { helpUri: finding.documentationUrl } : {}),
+            properties: {
+                ...(finding.cwe ? { cwe: finding.cwe } : {}),
+                tags: finding.cwe ? [`external/cwe/cwe-${finding.cwe}`] : [],
+            },
+        };
+    });
+
+    const originalUriBaseIds: Record<string, { uri: string }> = {};
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+        originalUriBaseIds[getSarifBaseId(folder)] = { uri: `${folder.uri.toString()}/` };
+    }
+
+    return {
+        $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+        version: '2.1.0',
+        runs: [{
+            tool: {
+                driver: {
+                    name: tool.name,
+                    ...(tool.version ? { version: tool.version } : {}),
+                    informationUri: 'https://cppcheck.sourceforge.io',
+                    rules,
+                },
+            },
+            originalUriBaseIds,
+            results: findings.map((finding) => ({
+                ruleId: finding.checkerId,
+                ruleIndex: ruleIds.indexOf(finding.checkerId),
+                level: sarifLevels[finding.level],
+                message: { text: finding.message },
+                locations: [{
+                    physicalLocation: toSarifPhysicalLocation(finding.location),
+                    ...(finding.symbol ? { logicalLocations: [{ name: finding.symbol }] } : {}),
+                }],
+                relatedLocations: finding.relatedLocations.map((location, index) => ({
+                    id: index,
+                    physicalLocation: toSarifPhysicalLocation(location),
+                    ...(location.message ? { message: { text: location.message } } : {}),
+                })),
+                properties: {
+                    severity: finding.severity,
+                    ...(finding.cwe ? { cwe: finding.cwe } : {}),
+                    ...(finding.inconclusive ? { inconclusive: true } : {}),
+                },
+            })),
+        }],
+    };
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replaceAll('&', '&amp;')
+        .replaceAll('<', '&lt;')
+        .replaceAll('>', '&gt;')
+        .replaceAll('"', '&quot;')
+        .replaceAll("'", '&#39;');
+}
+
+function createHtmlReport(findings: ReportFinding[], tool: ReportTool, generatedAt: string): string {
+    const severityCounts = new Map<string, number>();
+    for (const finding of findings) {
+        severityCounts.set(finding.severity, (severityCounts.get(finding.severity) ?? 0) + 1);
+    }
+    const summary = [...severityCounts.entries()]
+        .map(([severity, count]) => `<li><span class="severity ${escapeHtml(severity)}">${escapeHtml(severity)}</span> ${count}</li>`)
+        .join('\n');
+
+    const files = [...new Set(findings.map((finding) => finding.location.file))];
+    const sections = files.map((file) => {
+        const rows = findings.filter((finding) => finding.location.file === file).map((finding) => {
+            const checker = finding.documentationUrl
+                ? `<a href="${escapeHtml(finding.documentationUrl)}">${escapeHtml(finding.checkerId)}</a>`
+                : escapeHtml(finding.checkerId);
+            const cwe = finding.cwe
+                ? `<a href="https://cwe.mitre.org/data/definitions/${escapeHtml(finding.cwe)}.html">CWE-${escapeHtml(finding.cwe)}</a>`
+                : '';
+            const related = finding.relatedLocations.length > 0
+                ? `<ul class="related">${finding.relatedLocations.map((location) =>
+                    `<li>${escapeHtml(vscode.workspace.asRelativePath(location.file))}:${location.line}${location.message ? ` ${escapeHtml(location.message)}` : ''}</li>`).join('')}</ul>`
+                : '';
+            return `<tr>
+<td>${finding.location.line}:${finding.location.column}</td>
+<td><span class="severity ${escapeHtml(finding.severity)}">${escapeHtml(finding.severity)}</span>${finding.inconclusive ? ' <span class="inconclusive">inconclusive</span>' : ''}</td>
+<td>${checker}</td>
+<td>${cwe}</td>
+<td>${finding.symbol ? `<code>${escapeHtml(finding.symbol)}</code>` : ''}</td>
+<td>${escapeHtml(finding.message)}${related}</td>
+</tr>`;
+        }).join('\n');
+        return `<h2>${escapeHtml(vscode.workspace.asRelativePath(file))}</h2>
+<table>
+<thead><tr><th>Location</th><th>Severity</th><th>Checker</th><th>CWE</th><th>Symbol</th><th>Message</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>`;
+    }).join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Cppcheck Report</title>
+<style>
+body { font-family: sans-serif; margin: 2em; color: #222; }
+table { border-collapse: collapse; width: 100%; margin-bottom: 2em; }
+th, td { border: 1px solid #ccc; padding: 4px 8px; text-align: left; vertical-align: top; }
+th { background: #f0f0f0; }
+ul { margin: 0; }
+ul.related { color: #555; font-size: 90%; }
+.severity { border-radius: 3px; padding: 0 4px; background: #ddd; }
+.severity.error { background: #f4b4b4; }
+.severity.warning { background: #f6dd9c; }
+.inconclusive { color: #777; font-style: italic; }
+</style>
+</head>
+<body>
+<h1>Cppcheck Report</h1>
+<p>${escapeHtml(tool.version ? `${tool.name} ${tool.version}` : tool.name)}, generated ${escapeHtml(generatedAt)}. ${findings.length} findings in ${files.length} files.</p>
+<ul>
+${summary}
+</ul>
+${sections}
+</body>
+</html>
+`;
+}
+
+export function createReport(format: ReportFormat, findings: ReportFinding[], tool: ReportTool): string {
+    const generatedAt = new Date().toISOString();
+    switch (format) {
+        case 'sarif':
+            return JSON.stringify(createSarifReport(findings, tool), null, 2);
+        case 'json':
+            return JSON.stringify({ tool, generatedAt, findings }, null, 2);
+        case 'html':
+            return createHtmlReport(findings, tool, generatedAt);
+    }
+}
@@ -0,0 +1,189 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { CppcheckLogger } from './logging';
+import { CppcheckXmlError } from './xmlStream';
+
+// A file that the analysis result depends on, such as an included header, with its state at analysis time
+interface CachedDependency {
+    path: string;
+    mtime: number;
+    size: number;
+}
+
+interface CachedAnalysis {
+    fileName: string;
+    documentHash: string;
+    configurationHash: string;
+    dependencies: CachedDependency[];
+    errors: CppcheckXmlError[];
+}
+
+const cacheDirectoryName = 'results';
+// Upper bound for the number of included files followed, to keep scanning of large include trees cheap
+const maxDependencies = 1000;
+const includePattern = /^\s*#\s*include\s*(?:"([^"]+)"|<([^>]+)>)/gm;
+// Arguments naming a file whose content the results depend on, although the argument itself stays the same
+const dependencyArgs = ['--include', '--project', '--suppressions-list', '--suppress-xml', '--addon'];
+
+function sha1(text: string): string {
+    return crypto.createHash('sha1').update(text, 'utf8').digest('hex');
+}
+
+// Include directories given with -I<dir> or -I <dir>, relative ones are resolved against the working directory of cppcheck
+function getIncludeDirectories(args: string[], cwd: string): string[] {
+    const directories: string[] = [];
+    args.forEach((arg, index) => {
+        if (arg === '-I' && index + 1 < args.length) {
+            directories.push(path.resolve(cwd, args[index + 1]));
+        } else if (arg.startsWith('-I') && arg.length > 2) {
+            directories.push(path.resolve(cwd, arg.slice(2)));
+        }
+    });
+    return directories;
+}
+
+async function isFile(filePath: string): Promise<boolean> {
+    try {
+        return (await fs.promises.stat(filePath)).isFile();
+    } catch {
+        return false;
+    }
+}
+
+// Follows #include directives that can be resolved next to the including file or in one of the include directories.
+// Headers that are not found, e.g. system headers, are not tracked.
+async function findIncludedFiles(fileName: string, includeDirectories: string[]): Promise<string[]> {
+    const found = new Set<string>();
+    const pending = [fileName];
+    while (pending.length > 0 && found.size < maxDependencies) {
+        const current = pending.pop()!;
+        let content: string;
+        try {
+            content = await fs.promises.readFile(current, 'utf8');
+        } catch {
+            continue;
+        }
+        for (const match of content.matchAll(includePattern)) {
+            const [, quotedInclude, angleInclude] = match;
+            const searchDirectories = quotedInclude
+                ? [path.dirname(current), ...includeDirectories]
+                : includeDirectories;
+            for (const directory of searchDirectories) {
+                const candidate = path.resolve(directory, quotedInclude ?? angleInclude);
+                if (await isFile(candidate)) {
+                    if (!found.has(candidate) && candidate !== fileName) {
+                        found.add(candidate);
+                        pending.push(candidate);
+                    }
+                    break;
+                }
+            }
+        }
+    }
+    return [...found];
+}
+
+/*
+ * Keeps the results of analyses in the workspace storage, so that they survive reloading the window.
+ * A result is only reused if the content of the analyzed file, the cppcheck version and the arguments are unchanged,
+ * and none of the files it includes have been modified since. There is one entry per analyzed file.
+ */
+export class AnalysisResultCache {
+    private readonly directory: string | undefined;
+    // Included files of the entries read or written during this session, used to find analyses affected by a change
+    private readonly dependencies = new Map<string, Set<string>>();
+
+    constructor(storageUri: vscode.Uri | undefined, private readonly logger: CppcheckLogger) {
+        // Without a workspace there is no workspace storage, and nothing is cached
+        this.directory = storageUri ? path.join(storageUri.fsPath, cacheDirectoryName) : undefined;
+    }
+
+    // Returns the cppcheck errors of the cached analysis, or undefined if there is no valid entry
+    async get(fileName: string, documentHash: string, configuration: string[]): Promise<CppcheckXmlError[] | undefined> {
+        if (!this.directory) {
+            return undefined;
+        }
+        let entry: CachedAnalysis;
+        try {
+            entry = JSON.parse(await fs.promises.readFile(this.getEntryPath(fileName), 'utf8'));
+        } catch {
+            return undefined;
+        }
+        if (entry.fileName !== fileName
+            || entry.documentHash !== documentHash
+            || entry.configurationHash !== sha1(JSON.stringify(configuration))) {
+            return undefined;
+        }
+        this.dependencies.set(fileName, new Set(entry.dependencies.map((dependency) => dependency.path)));
+
+        for (const dependency of entry.dependencies) {
+            try {
+                const stat = await fs.promises.stat(dependency.path);
+                if (stat.mtimeMs !== dependency.mtime || stat.size !== dependency.size) {
+                    this.logger.debug(`Cached results of ${fileName} are outdated, ${dependency.path} has changed`);
+                    return undefined;
+                }
+            } catch {
+                this.logger.debug(`Cached results of ${fileName} are outdated, ${dependency.path} was removed`);
+                return undefined;
+            }
+        }
+        return entry.errors;
+    }
+
+    async set(fileName: string, documentHash: string, configuration: string[], errors: CppcheckXmlError[], args: string[], cwd: string) {
+        if (!this.directory) {
+            return;
+        }
+        try {
+            // Forced includes, the project file, suppressions files and addon files also affect the results
+            // Built-in addons given by name do not resolve to a file and are not tracked
+            const dependencyPaths = await findIncludedFiles(fileName, getIncludeDirectories(args, cwd));
+            for (const arg of args) {
+                if (dependencyArgs.some((dependencyArg) => arg.startsWith(`${dependencyArg}=`))) {
+                    dependencyPaths.push(path.resolve(cwd, arg.slice(arg.indexOf('=') + 1)));
+                }
+            }
+            const dependencies: CachedDependency[] = [];
+            for (const dependencyPath of dependencyPaths) {
+                try {
+                    const stat = await fs.promises.stat(dependencyPath);
+                    dependencies.push({ path: dependencyPath, mtime: stat.mtimeMs, size: stat.size });
+                } catch {
+                    // A file that does not exist cannot change the results
+                }
+            }
+            this.dependencies.set(fileName, new Set(dependencyPaths));
+
+            const entry: CachedAnalysis = {
+                fileName,
+                documentHash,
+                configurationHash: sha1(JSON.stringify(configuration)),
+                dependencies,
+                errors,
+            };
+            await fs.promises.mkdir(this.directory, { recursive: true });
+            await fs.promises.writeFile(this.getEntryPath(fileName), JSON.stringify(entry), 'utf8');
+        } catch (err) {
+            this.logger.warn(`Failed to cache results of ${fileName}: ${err}`);
+        }
+    }
+
+    // Whether the cached analysis of fileName depends on changedPath, as far as known from this session
+    dependsOn(fileName: string, changedPath: string): boolean {
+        return this.dependencies.get(fileName)?.has(path.resolve(changedPath)) ?? false;
+    }
+
+    async clear() {
+        this.dependencies.clear();
+        if (this.directory) {
+            await fs.promises.rm(this.directory, { recursive: true, force: true });
+        }
+    }
+
+    private getEntryPath(fileName: string): string {
+        return path.join(this.directory!, `${sha1(fileName)}.json`);
+    }
+}
@@ -0,0 +1,100 @@
+import * as vscode from 'vscode';
+import { CppcheckLogger } from './logging';
+
+interface ScheduledJob {
+    key: string;
+    run: (token: vscode.CancellationToken) => Promise<void>;
+    tokenSource: vscode.CancellationTokenSource;
+    resolve: () => void;
+}
+
+export interface SchedulerState {
+    running: number;
+    queued: number;
+}
+
+/*
+ * Runs analyses through a queue, with at most cppcheck-official.maxConcurrentJobs running at the same time.
+ * Jobs are identified by a key (e.g. the uri of the analyzed document). Scheduling a job cancels any queued or
+ * running job with the same key, since its results would be outdated anyway.
+ */
+export class AnalysisScheduler implements vscode.Disposable {
+    private readonly queued: ScheduledJob[] = [];
+    private readonly running = new Set<ScheduledJob>();
+    private readonly onDidChangeStateEmitter = new vscode.EventEmitter<SchedulerState>();
+    readonly onDidChangeState = this.onDidChangeStateEmitter.event;
+
+    constructor(private readonly logger: CppcheckLogger) {}
+
+    // The returned promise resolves when the job has finished, or when it has been cancelled
+    schedule(key: string, run: (token: vscode.CancellationToken) => Promise<void>, token?: vscode.CancellationToken): Promise<void> {
+        this.cancel(key);
+        return new Promise<void>((resolve) => {
+            const job: ScheduledJob = {
+                key,
+                run,
+                tokenSource: new vscode.CancellationTokenSource(),
+                resolve,
+            };
+            const cancellationListener = token?.onCancellationRequested(() => this.cancelJob(job));
+            job.resolve = () => {
+                cancellationListener?.dispose();
+                resolve();
+            };
+            this.queued.push(job);
+            this.startJobs();
+        });
+    }
+
+    cancel(key: string) {
+        for (const job of [...this.queued, ...this.running]) {
+            if (job.key === key) {
+                this.cancelJob(job);
+            }
+        }
+    }
+
+    getState(): SchedulerState {
+        return { running: this.running.size, queued: this.queued.length };
+    }
+
+    dispose() {
+        for (const job of [...this.queued, ...this.running]) {
+            this.cancelJob(job);
+        }
+        this.onDidChangeStateEmitter.dispose();
+    }
+
+    private cancelJob(job: ScheduledJob) {
+        job.tokenSource.cancel();
+        // A running job is cancelled through its token and removed once it has stopped
+        const queuedIndex = this.queued.indexOf(job);
+        if (queuedIndex >= 0) {
+            this.queued.splice(queuedIndex, 1);
+            job.tokenSource.dispose();
+            job.resolve();
+            this.fireStateChange();
+        }
+    }
+
+    private startJobs() {
+        const maxConcurrentJobs = Math.max(1, vscode.workspace.getConfiguration('cppcheck-official').get<number>('maxConcurrentJobs', 2));
+        while (this.running.size < maxConcurrentJobs && this.queued.length > 0) {
+            const job = this.queued.shift()!;
+            this.running.add(job);
+            job.run(job.tokenSource.token)
+                .catch((err) => this.logger.error(`Analysis of ${job.key} failed: ${err}`))
+                .finally(() => {
+                    this.running.delete(job);
+                    job.tokenSource.dispose();
+                    job.resolve();
+                    this.startJobs();
+                });
+        }
+        this.fireStateChange();
+    }
+
+    private fireStateChange() {
+        this.onDidChangeStateEmitter.fire(this.getState());
+    }
+}
@@ -1,22 +1,107 @@
 import { exec } from "child_process";
+import * as vscode from 'vscode';
 import { resolvePath } from './path';
 import util from 'util';
 
 const execAsync = util.promisify(exec);
 
-async function runCommand(command : string) {
+// Scripts run in the workspace folder owning the scope, so that relative paths work per folder in multi-root workspaces
+// Output on stderr does not mean failure by itself, only a non-zero exit code or running into the timeout does
+async function runCommand(command : string, scope? : vscode.Uri, timeoutSeconds = 0) {
   try {
     const { stdout, stderr } = await execAsync(command, {
-      cwd: resolvePath('${workspaceFolder}'),
+      cwd: resolvePath('${workspaceFolder}', scope),
+      timeout: timeoutSeconds * 1000,
     });
+    return { stdout, stderr };
+  } catch (error) {
+    if (!(error instanceof Error)) {
+      throw error;
+    }
+    if ('killed' in error && error.killed) {
+      throw new Error(`Script '${command}' timed out after ${timeoutSeconds} seconds`);
+    }
+    // The error of exec carries the exit code and the output of the script
+    const stderr = 'stderr' in error ? String(error.stderr ?? '').trim() : '';
+    const code = 'code' in error ? error.code : undefined;
+    throw new Error(`Script '${command}' failed with exit code ${code}${stderr ? `: ${stderr}` : ''}`);
+  }
+}
+
+// Keeps script output between analyses until one of the files watched for the owning workspace folder changes
+class ScriptOutputCache implements vscode.Disposable {
+  private readonly outputs = new Map<string, string>();
+  private readonly cachedFolders = new Set<string>();
+  private watchers : vscode.FileSystemWatcher[] = [];
+
+  // Sets up file watchers from the cppcheck-official.scriptCacheFiles setting of each workspace folder
+  updateWatchers() {
+    this.disposeWatchers();
+    this.outputs.clear();
+    this.cachedFolders.clear();
 
-    if (stderr) {
-      throw new Error(stderr);
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+      const patterns = vscode.workspace
+        .getConfiguration('cppcheck-official', folder.uri)
+        .get<string[]>('scriptCacheFiles', []);
+      if (patterns.length === 0) {
+        continue;
+      }
+      this.cachedFolders.add(folder.uri.toString());
+      for (const pattern of patterns) {
+        const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(folder, pattern));
+        const clear = () => this.clearFolder(folder);
+        watcher.onDidChange(clear);
+        watcher.onDidCreate(clear);
+        watcher.onDidDelete(clear);
+        this.watchers.push(watcher);
+      }
     }
-    return stdout;
-  } catch (error) {
-    throw error;
+  }
+
+  get(command : string, scope? : vscode.Uri) {
+    const key = this.getKey(command, scope);
+    return key ? this.outputs.get(key) : undefined;
+  }
+
+  set(command : string, output : string, scope? : vscode.Uri) {
+    const key = this.getKey(command, scope);
+    if (key) {
+      this.outputs.set(key, output);
+    }
+  }
+
+  clear() {
+    this.outputs.clear();
+  }
+
+  dispose() {
+    this.disposeWatchers();
+    this.outputs.clear();
+  }
+
+  private getKey(command : string, scope? : vscode.Uri) {
+    // Output is only cached for workspace folders that have files to watch
+    const folder = scope ? vscode.workspace.getWorkspaceFolder(scope) : vscode.workspace.workspaceFolders?.[0];
+    if (!folder || !this.cachedFolders.has(folder.uri.toString())) {
+      return undefined;
+    }
+    return `${folder.uri.toString()}\n${command}`;
+  }
+
+  private clearFolder(folder : vscode.WorkspaceFolder) {
+    const prefix = `${folder.uri.toString()}\n`;
+    for (const key of [...this.outputs.keys()]) {
+      if (key.startsWith(prefix)) {
+        this.outputs.delete(key);
+      }
+    }
+  }
+
+  private disposeWatchers() {
+    this.watchers.forEach((watcher) => watcher.dispose());
+    this.watchers = [];
   }
 }
 
-export { runCommand };
\ No newline at end of file
+export { runCommand, ScriptOutputCache };
\ No newline at end of file
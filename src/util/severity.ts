@@ -0,0 +1,71 @@
+import * as vscode from 'vscode';
+import { getActiveProfile } from './profiles';
+
+export type CppcheckSeverity = 'error' | 'warning' | 'style' | 'performance' | 'portability' | 'information';
+
+type EditorSeverity = 'error' | 'warning' | 'information' | 'hint';
+
+export const cppcheckSeverities: CppcheckSeverity[] = ['error', 'warning', 'style', 'performance', 'portability', 'information'];
+
+const editorSeverities: Record<EditorSeverity, vscode.DiagnosticSeverity> = {
+    error: vscode.DiagnosticSeverity.Error,
+    warning: vscode.DiagnosticSeverity.Warning,
+    information: vscode.DiagnosticSeverity.Information,
+    hint: vscode.DiagnosticSeverity.Hint,
+};
+
+// Severities used unless cppcheck-official.severityMap says otherwise
+const defaultSeverityMap: Record<CppcheckSeverity, EditorSeverity> = {
+    error: 'error',
+    warning: 'warning',
+    style: 'information',
+    performance: 'information',
+    portability: 'information',
+    information: 'information',
+};
+
+// Other severities reported by cppcheck, such as debug and none, are treated as information
+export function toCppcheckSeverity(severity: string | undefined): CppcheckSeverity {
+    const lower = (severity ?? '').toLowerCase();
+    return cppcheckSeverities.find((s) => s === lower) ?? 'information';
+}
+
+// Prefix of the message of inconclusive findings, so that they stand out wherever the message is shown
+export const inconclusiveMessagePrefix = '(inconclusive) ';
+
+// Inconclusive findings are shown one level below the mapped severity, e.g. an inconclusive error as a warning
+export function getEditorSeverity(severity: string | undefined, scope?: vscode.Uri, inconclusive = false): vscode.DiagnosticSeverity {
+    const cppcheckSeverity = toCppcheckSeverity(severity);
+    const severityMap = vscode.workspace.getConfiguration('cppcheck-official', scope).get<Record<string, string>>('severityMap', {});
+    const editorSeverity = severityMap[cppcheckSeverity]?.toLowerCase();
+    const mappedSeverity = editorSeverity && editorSeverity in editorSeverities
+        ? editorSeverities[editorSeverity as EditorSeverity]
+        : editorSeverities[defaultSeverityMap[cppcheckSeverity]];
+    return inconclusive ? Math.min(mappedSeverity + 1, vscode.DiagnosticSeverity.Hint) : mappedSeverity;
+}
+
+/*
+ * Severities whose findings are shown, from the active profile or cppcheck-official.severities. Until that setting is
+ * set, the deprecated cppcheck-official.minSeverity setting decides, so that existing configurations keep working.
+ */
+export function getEnabledSeverities(scope?: vscode.Uri): CppcheckSeverity[] {
+    const profileSeverities = getActiveProfile(scope)?.severities;
+    if (Array.isArray(profileSeverities)) {
+        return profileSeverities.map(toCppcheckSeverity);
+    }
+    const config = vscode.workspace.getConfiguration('cppcheck-official', scope);
+    const severities = config.inspect<string[]>('severities');
+    if (severities?.globalValue !== undefined || severities?.workspaceValue !== undefined || severities?.workspaceFolderValue !== undefined) {
+        return config.get<string[]>('severities', cppcheckSeverities).map(toCppcheckSeverity);
+    }
+    switch (config.get<string>('minSeverity', 'info').toLowerCase()) {
+        case 'error': return ['error'];
+        case 'warning': return ['error', 'warning'];
+        default: return [...cppcheckSeverities];
+    }
+}
+
+// Whether inconclusive findings are shown, they are only reported when cppcheck-official.inconclusive is enabled
+export function isInconclusiveShown(scope?: vscode.Uri): boolean {
+    return vscode.workspace.getConfiguration('cppcheck-official', scope).get<boolean>('showInconclusive', true);
+}
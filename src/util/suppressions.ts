@@ -0,0 +1,565 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { tokenizeArguments } from './arguments';
+import { resolvePath } from './path';
+import { CppcheckXmlError } from './xmlStream';
+
+export type SuppressionSourceKind = 'inline' | 'argument' | 'suppressionsList' | 'suppressionsXml' | 'projectFile' | 'builtIn';
+
+// Setting of a workspace folder that a --suppress argument is defined in
+interface SuppressionSetting {
+    folder: vscode.WorkspaceFolder;
+    key: 'arguments' | 'argumentList';
+    index?: number;
+}
+
+export type InlineSuppressionVariant = 'begin' | 'end' | 'file' | 'macro';
+
+export interface SuppressionEntry {
+    kind: SuppressionSourceKind;
+    ids: string[];
+    // Inline suppressions other than the plain cppcheck-suppress comment
+    variant?: InlineSuppressionVariant;
+    // The code the suppression applies to, if it is limited to a file or line
+    file?: string;
+    line?: number;
+    symbolName?: string;
+    // The definition as written, and where it is written
+    text: string;
+    location?: vscode.Location;
+    setting?: SuppressionSetting;
+    // The range removed when deleting the suppression, covering whole lines where the definition has a line of its own
+    removalRange?: vscode.Range;
+}
+
+interface ParsedSuppression {
+    id: string;
+    file?: string;
+    line?: number;
+    symbolName?: string;
+}
+
+interface UnmatchedSuppression {
+    id: string;
+    file: string;
+    line: number;
+}
+
+const inlineSuppressionFileGlob = '**/*.{c,cpp,cc,cxx,c++,h,hh,hpp,hxx,h++,inl,ipp,tpp}';
+const suppressionCommentIdPattern = /cppcheck-suppress(-begin|-end|-file|-macro)?(\s*\[([^\]]*)\]|\s+([^\s*]+))/;
+const inlineSuppressionPattern = /(\/\/|\/\*)\s*cppcheck-suppress(?:-(begin|end|file|macro))?(\s*\[[^\]]*\]|\s+[^\s*]+)[^\n]*?(\*\/|$)/;
+
+// Suppressions added by the extension itself, see runCppcheckOnFileXML and runCppcheckOnWorkspaceXML
+// Analyses of a project file get none of them, the project decides what is suppressed
+const builtInSuppressions: { id: string, description: string }[] = [
+    { id: 'unusedFunction', description: 'Added for single file analysis without a project file' },
+    { id: 'missingInclude', description: 'Added unless a project file is used' },
+    { id: 'missingIncludeSystem', description: 'Added unless a project file is used' },
+];
+
+/*
+ * Files are read from disk instead of being opened as text documents, since opening a document starts its analysis.
+ * Offsets are mapped to positions the same way as TextDocument.positionAt.
+ */
+class SuppressionSourceText {
+    readonly lines: string[];
+    private readonly lineOffsets: number[] = [0];
+
+    constructor(readonly uri: vscode.Uri, readonly text: string) {
+        this.lines = text.split(/\r?\n/);
+        for (let offset = text.indexOf('\n'); offset >= 0; offset = text.indexOf('\n', offset + 1)) {
+            this.lineOffsets.push(offset + 1);
+        }
+    }
+
+    static async read(uri: vscode.Uri): Promise<SuppressionSourceText | undefined> {
+        try {
+            return new SuppressionSourceText(uri, new TextDecoder().decode(await vscode.workspace.fs.readFile(uri)));
+        } catch {
+            return undefined;
+        }
+    }
+
+    positionAt(offset: number): vscode.Position {
+        let line = 0;
+        while (line + 1 < this.lineOffsets.length && this.lineOffsets[line + 1] <= offset) {
+            line++;
+        }
+        return new vscode.Position(line, offset - this.lineOffsets[line]);
+    }
+
+    // Whole lines, including the line break, are removed if they contain nothing but the definition
+    getRemovalRange(range: vscode.Range): vscode.Range {
+        const before = this.lines[range.start.line].slice(0, range.start.character);
+        const endLine = this.lines[range.end.line];
+        const after = endLine.slice(range.end.character);
+        if (before.trim() === '' && after.trim() === '') {
+            return range.end.line + 1 < this.lines.length
+                ? new vscode.Range(range.start.line, 0, range.end.line + 1, 0)
+                : new vscode.Range(range.start.line, 0, range.end.line, endLine.length);
+        }
+        // A trailing comment is removed together with the whitespace in front of it
+        if (after.trim() === '') {
+            return new vscode.Range(range.start.line, before.trimEnd().length, range.end.line, endLine.length);
+        }
+        return range;
+    }
+}
+
+function normalizeFile(file: string): string {
+    return file.replaceAll('\\', '/');
+}
+
+function isSameFile(a: string, b: string): boolean {
+    // Files may be given relative to the working directory of cppcheck, so only the end of the paths is compared
+    const normalizedA = normalizeFile(a);
+    const normalizedB = normalizeFile(b);
+    return normalizedA === normalizedB || normalizedA.endsWith(`/${normalizedB}`) || normalizedB.endsWith(`/${normalizedA}`);
+}
+
+// Values of --suppress and lines of suppressions lists have the form id[:file[:line]]
+export function parseSuppressionText(text: string): ParsedSuppression {
+    const separatorIndex = text.indexOf(':');
+    if (separatorIndex < 0) {
+        return { id: text };
+    }
+    const id = text.slice(0, separatorIndex);
+    const rest = text.slice(separatorIndex + 1);
+    const lineMatch = /^(.*):(\d+)$/.exec(rest);
+    return lineMatch ? { id, file: lineMatch[1], line: Number(lineMatch[2]) } : { id, file: rest };
+}
+
+function toEntryFields(parsed: ParsedSuppression) {
+    return { ids: [parsed.id], file: parsed.file, line: parsed.line, symbolName: parsed.symbolName };
+}
+
+function parseInlineSuppression(source: SuppressionSourceText, lineIndex: number): SuppressionEntry | undefined {
+    const lineText = source.lines[lineIndex];
+    const match = inlineSuppressionPattern.exec(lineText);
+    if (!match) {
+        return undefined;
+    }
+    const [comment, commentStart, variantMatch, idPart] = match;
+    const variant = variantMatch as InlineSuppressionVariant | undefined;
+    const ids = idPart.trim().startsWith('[')
+        ? idPart.trim().slice(1, -1).split(',').map((id) => id.trim().split(/\s+/)[0]).filter(Boolean)
+        : [idPart.trim()];
+    const symbolName = /symbolName=([^\],\s]+)/.exec(lineText.slice(match.index))?.[1];
+
+    // A comment on a line of its own applies to the next line, a trailing comment to its own line
+    const isTrailing = lineText.slice(0, match.index).trim() !== '';
+    const end = commentStart === '/*' ? match.index + comment.length : lineText.trimEnd().length;
+    const range = new vscode.Range(lineIndex, match.index, lineIndex, end);
+    return {
+        kind: 'inline',
+        ids,
+        variant,
+        file: source.uri.fsPath,
+        line: variant === 'file' ? undefined : lineIndex + (isTrailing || variant ? 1 : 2),
+        symbolName,
+        text: lineText.slice(match.index, end),
+        location: new vscode.Location(source.uri, range),
+        removalRange: source.getRemovalRange(range),
+    };
+}
+
+function findSourceInlineSuppressions(source: SuppressionSourceText): SuppressionEntry[] {
+    const entries: SuppressionEntry[] = [];
+    if (!source.text.includes('cppcheck-suppress')) {
+        return entries;
+    }
+    for (let line = 0; line < source.lines.length; line++) {
+        const entry = parseInlineSuppression(source, line);
+        if (entry) {
+            entries.push(entry);
+        }
+    }
+    return entries;
+}
+
+// Finds the inline suppression comments of an open document
+export function findInlineSuppressions(document: vscode.TextDocument): SuppressionEntry[] {
+    return findSourceInlineSuppressions(new SuppressionSourceText(document.uri, document.getText()));
+}
+
+// Finds the inline suppression comment on a line of an open document, if there is one
+export function findInlineSuppressionOnLine(document: vscode.TextDocument, line: number): SuppressionEntry | undefined {
+    if (line < 0 || line >= document.lineCount || !document.lineAt(line).text.includes('cppcheck-suppress')) {
+        return undefined;
+    }
+    return parseInlineSuppression(new SuppressionSourceText(document.uri, document.getText()), line);
+}
+
+// Items of the ID list of a suppression comment may give a symbol name as well, e.g. 'id symbolName=name'
+function getCommentItemId(item: string): string {
+    return item.trim().split(/\s+/)[0];
+}
+
+// Adds an ID to a suppression comment, turning cppcheck-suppress id into the list form cppcheck-suppress[id,other]
+export function addIdToSuppressionComment(commentText: string, id: string): string {
+    return commentText.replace(suppressionCommentIdPattern, (match, variant, idPart, list, single) =>
+        `cppcheck-suppress${variant ?? ''}[${list !== undefined ? list.trim() : single},${id}]`);
+}
+
+// Removes IDs from a suppression comment, returning undefined if none are left
+export function removeIdsFromSuppressionComment(commentText: string, ids: string[]): string | undefined {
+    const match = suppressionCommentIdPattern.exec(commentText);
+    if (!match) {
+        return commentText;
+    }
+    const [idPart, variant, , list, single] = match;
+    const items = list !== undefined ? list.split(',').filter((item) => item.trim()) : [single];
+    const remaining = items.filter((item) => !ids.includes(getCommentItemId(item)));
+    if (remaining.length === 0) {
+        return undefined;
+    }
+    const remainingIds = list !== undefined ? `[${remaining.map((item) => item.trim()).join(',')}]` : ` ${single}`;
+    return commentText.slice(0, match.index) + `cppcheck-suppress${variant ?? ''}${remainingIds}` + commentText.slice(match.index + idPart.length);
+}
+
+/*
+ * Finds the inline suppression comment that cppcheck reported as unmatched at a line (0-indexed). Comments apply to
+ * their own line or the next one, and cppcheck-suppress-file comments have no line at all.
+ */
+export function findUnmatchedInlineSuppression(document: vscode.TextDocument, line: number, id: string): SuppressionEntry | undefined {
+    if (line < 0) {
+        return findInlineSuppressions(document).find((entry) => entry.variant === 'file' && entry.ids.includes(id));
+    }
+    return [line, line - 1]
+        .map((candidate) => findInlineSuppressionOnLine(document, candidate))
+        .find((entry) => entry?.ids.includes(id));
+}
+
+// Finds the cppcheck-suppress-end comment closing a cppcheck-suppress-begin comment for the ID
+function findSuppressionEnd(source: SuppressionSourceText, beginLine: number, id: string): number | undefined {
+    let depth = 0;
+    for (let line = beginLine + 1; line < source.lines.length; line++) {
+        if (!source.lines[line].includes('cppcheck-suppress')) {
+            continue;
+        }
+        const entry = parseInlineSuppression(source, line);
+        if (!entry?.ids.includes(id)) {
+            continue;
+        }
+        if (entry.variant === 'begin') {
+            depth++;
+        } else if (entry.variant === 'end') {
+            if (depth === 0) {
+                return line;
+            }
+            depth--;
+        }
+    }
+    return undefined;
+}
+
+/*
+ * Adds the edits removing IDs from the inline suppression comments on the given lines (0-indexed). Comments left
+ * without IDs are removed entirely, and a cppcheck-suppress-begin comment is removed together with its end comment.
+ * Returns the number of suppressions removed.
+ */
+export function removeInlineSuppressionIds(document: vscode.TextDocument, removals: { line: number, id: string }[], edit: vscode.WorkspaceEdit): number {
+    const source = new SuppressionSourceText(document.uri, document.getText());
+    const idsByLine = new Map<number, string[]>();
+    const addRemoval = (line: number, id: string) => {
+        const ids = idsByLine.get(line) ?? [];
+        if (!ids.includes(id)) {
+            idsByLine.set(line, [...ids, id]);
+        }
+    };
+    let removed = 0;
+    for (const { line, id } of removals) {
+        const entry = parseInlineSuppression(source, line);
+        if (!entry?.ids.includes(id)) {
+            continue;
+        }
+        addRemoval(line, id);
+        removed++;
+        const endLine = entry.variant === 'begin' ? findSuppressionEnd(source, line, id) : undefined;
+        if (endLine !== undefined) {
+            addRemoval(endLine, id);
+        }
+    }
+    for (const [line, ids] of idsByLine) {
+        const entry = parseInlineSuppression(source, line)!;
+        const text = removeIdsFromSuppressionComment(entry.text, ids);
+        if (text === undefined) {
+            edit.delete(document.uri, entry.removalRange!);
+        } else {
+            edit.replace(document.uri, entry.location!.range, text);
+        }
+    }
+    return removed;
+}
+
+// Whether a suppression given for a file, possibly relative to the project, applies to the file
+export function appliesToFile(entry: SuppressionEntry, file: string): boolean {
+    return !entry.file || entry.file === '*' || isSameFile(entry.file, file);
+}
+
+export function getUnmatchedSuppressionId(message: string): string | undefined {
+    return /Unmatched suppression: (\S+)/.exec(message)?.[1];
+}
+
+// Finds the inline suppression comments in the C and C++ files of the workspace, by file URI
+export async function findWorkspaceInlineSuppressions(token?: vscode.CancellationToken): Promise<Map<string, SuppressionEntry[]>> {
+    const entriesByFile = new Map<string, SuppressionEntry[]>();
+    const files = await vscode.workspace.findFiles(inlineSuppressionFileGlob, undefined, undefined, token);
+    for (const file of files) {
+        if (token?.isCancellationRequested) {
+            break;
+        }
+        const source = await SuppressionSourceText.read(file);
+        const entries = source ? findSourceInlineSuppressions(source) : [];
+        if (entries.length > 0) {
+            entriesByFile.set(file.toString(), entries);
+        }
+    }
+    return entriesByFile;
+}
+
+export function isInlineSuppressionFile(document: vscode.TextDocument): boolean {
+    return vscode.languages.match({ pattern: inlineSuppressionFileGlob }, document) > 0;
+}
+
+function findListFileSuppressions(source: SuppressionSourceText): SuppressionEntry[] {
+    const entries: SuppressionEntry[] = [];
+    source.lines.forEach((lineText, lineIndex) => {
+        const text = lineText.trim();
+        // Comments start with # or //
+        if (!text || text.startsWith('#') || text.startsWith('//')) {
+            return;
+        }
+        const start = lineText.length - lineText.trimStart().length;
+        const range = new vscode.Range(lineIndex, start, lineIndex, start + text.length);
+        entries.push({
+            kind: 'suppressionsList',
+            ...toEntryFields(parseSuppressionText(text)),
+            text,
+            location: new vscode.Location(source.uri, range),
+            removalRange: source.getRemovalRange(range),
+        });
+    });
+    return entries;
+}
+
+function findXmlFileSuppressions(source: SuppressionSourceText, kind: 'suppressionsXml' | 'projectFile'): SuppressionEntry[] {
+    const entries: SuppressionEntry[] = [];
+    const createEntry = (match: RegExpMatchArray, parsed: ParsedSuppression): SuppressionEntry => {
+        const range = new vscode.Range(source.positionAt(match.index!), source.positionAt(match.index! + match[0].length));
+        return {
+            kind,
+            ...toEntryFields(parsed),
+            text: match[0],
+            location: new vscode.Location(source.uri, range),
+            removalRange: source.getRemovalRange(range),
+        };
+    };
+
+    if (kind === 'suppressionsXml') {
+        // <suppress><id>..</id><fileName>..</fileName><lineNumber>..</lineNumber><symbolName>..</symbolName></suppress>
+        for (const match of source.text.matchAll(/<suppress>([\s\S]*?)<\/suppress>/g)) {
+            const child = (name: string) => new RegExp(`<${name}>([^<]*)</${name}>`).exec(match[1])?.[1]?.trim();
+            const lineNumber = child('lineNumber');
+            entries.push(createEntry(match, {
+                id: child('id') ?? '',
+                file: child('fileName'),
+                line: lineNumber ? Number(lineNumber) : undefined,
+                symbolName: child('symbolName'),
+            }));
+        }
+    } else {
+        // <suppression fileName=".." lineNumber=".." symbolName="..">id</suppression> in the suppressions block
+        for (const match of source.text.matchAll(/<suppression\b([^>]*)>([^<]*)<\/suppression>/g)) {
+            const attribute = (name: string) => new RegExp(`\\b${name}="([^"]*)"`).exec(match[1])?.[1];
+            const lineNumber = attribute('lineNumber');
+            entries.push(createEntry(match, {
+                id: match[2].trim(),
+                file: attribute('fileName') ?? attribute('file'),
+                line: lineNumber ? Number(lineNumber) : undefined,
+                symbolName: attribute('symbolName'),
+            }));
+        }
+    }
+    return entries;
+}
+
+/*
+ * Finds the suppressions configured for the analyses of the workspace: --suppress arguments, suppressions files, the
+ * suppressions block of .cppcheck project files, and the suppressions added by the extension itself.
+ * Arguments generated by scripts are not taken into account.
+ */
+export async function findConfiguredSuppressions(): Promise<SuppressionEntry[]> {
+    const entries: SuppressionEntry[] = [];
+    const suppressionFiles = new Map<string, SuppressionSourceKind>();
+
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+        const config = vscode.workspace.getConfiguration('cppcheck-official', folder.uri);
+        const settingArgs: [SuppressionSetting, string][] = [
+            ...tokenizeArguments(config.get<string>('arguments', ''))
+                .map((arg): [SuppressionSetting, string] => [{ folder, key: 'arguments' }, arg]),
+            ...config.get<string[]>('argumentList', [])
+                .map((arg, index): [SuppressionSetting, string] => [{ folder, key: 'argumentList', index }, arg]),
+        ];
+        for (const [setting, arg] of settingArgs) {
+            if (arg.startsWith('--suppress=')) {
+                entries.push({
+                    kind: 'argument',
+                    ...toEntryFields(parseSuppressionText(arg.slice('--suppress='.length))),
+                    text: arg,
+                    setting,
+                });
+            } else if (arg.startsWith('--suppressions-list=')) {
+                suppressionFiles.set(resolvePath(arg.slice('--suppressions-list='.length), folder.uri), 'suppressionsList');
+            } else if (arg.startsWith('--suppress-xml=')) {
+                suppressionFiles.set(resolvePath(arg.slice('--suppress-xml='.length), folder.uri), 'suppressionsXml');
+            } else if (arg.startsWith('--project=') && arg.endsWith('.cppcheck')) {
+                suppressionFiles.set(resolvePath(arg.slice('--project='.length), folder.uri), 'projectFile');
+            }
+        }
+        const project = config.get<string>('project', '').trim();
+        if (project.endsWith('.cppcheck')) {
+            suppressionFiles.set(resolvePath(project, folder.uri), 'projectFile');
+        }
+    }
+
+    for (const [file, kind] of suppressionFiles) {
+        const source = await SuppressionSourceText.read(vscode.Uri.file(file));
+        if (!source) {
+            continue;
+        }
+        entries.push(...kind === 'suppressionsList'
+            ? findListFileSuppressions(source)
+            : findXmlFileSuppressions(source, kind as 'suppressionsXml' | 'projectFile'));
+    }
+
+    entries.push(...builtInSuppressions.map(({ id, description }): SuppressionEntry => ({
+        kind: 'builtIn',
+        ids: [id],
+        text: description,
+    })));
+    return entries;
+}
+
+// Removes the suppression from where it is defined
+export async function deleteSuppression(entry: SuppressionEntry): Promise<boolean> {
+    if (entry.setting) {
+        return updateSuppressionSetting(entry, undefined);
+    }
+    if (!entry.location || !entry.removalRange) {
+        return false;
+    }
+    return replaceAndSave(entry.location.uri, entry.removalRange, '');
+}
+
+// Replaces the definition of the suppression with the given text
+export async function editSuppression(entry: SuppressionEntry, text: string): Promise<boolean> {
+    if (entry.setting) {
+        return updateSuppressionSetting(entry, text);
+    }
+    if (!entry.location) {
+        return false;
+    }
+    return replaceAndSave(entry.location.uri, entry.location.range, text);
+}
+
+async function replaceAndSave(uri: vscode.Uri, range: vscode.Range, text: string): Promise<boolean> {
+    const document = await vscode.workspace.openTextDocument(uri);
+    // The entry was found in the file on disk, which may differ from unsaved changes in the editor
+    if (document.isDirty) {
+        return false;
+    }
+    const edit = new vscode.WorkspaceEdit();
+    edit.replace(uri, range, text);
+    return await vscode.workspace.applyEdit(edit) && document.save();
+}
+
+// Arguments are replaced or removed in the setting of the workspace folder that defines them
+async function updateSuppressionSetting(entry: SuppressionEntry, text: string | undefined): Promise<boolean> {
+    const { folder, key, index } = entry.setting!;
+    const config = vscode.workspace.getConfiguration('cppcheck-official', folder.uri);
+    const target = config.inspect(key)?.workspaceFolderValue !== undefined
+        ? vscode.ConfigurationTarget.WorkspaceFolder
+        : vscode.ConfigurationTarget.Workspace;
+
+    if (key === 'argumentList') {
+        const argumentList = [...config.get<string[]>('argumentList', [])];
+        if (index === undefined || argumentList[index] !== entry.text) {
+            return false;
+        }
+        if (text === undefined) {
+            argumentList.splice(index, 1);
+        } else {
+            argumentList[index] = text;
+        }
+        await config.update('argumentList', argumentList, target);
+        return true;
+    }
+
+    // The argument string is only changed if the argument appears in it as written, i.e. not quoted
+    const argumentString = config.get<string>('arguments', '');
+    const position = argumentString.indexOf(entry.text);
+    if (position < 0) {
+        return false;
+    }
+    const before = argumentString.slice(0, position);
+    const after = argumentString.slice(position + entry.text.length);
+    const updated = text === undefined
+        ? [before.trimEnd(), after.trimStart()].filter(Boolean).join(' ')
+        : before + text + after;
+    await config.update('arguments', updated, target);
+    return true;
+}
+
+/*
+ * Keeps the unmatchedSuppression results of the latest analyses, per analyzed document or workspace folder.
+ * cppcheck reports an unmatched suppression at the location it applies to, with the suppressed ID in the message.
+ */
+export class UnmatchedSuppressionStore implements vscode.Disposable {
+    private readonly unmatchedBySource = new Map<string, UnmatchedSuppression[]>();
+    private readonly onDidChangeEmitter = new vscode.EventEmitter<void>();
+    readonly onDidChange = this.onDidChangeEmitter.event;
+
+    update(source: string, errors: CppcheckXmlError[], cwd: string) {
+        const unmatched: UnmatchedSuppression[] = [];
+        for (const e of errors) {
+            const id = getUnmatchedSuppressionId(e.$.msg ?? '');
+            const location = e.location?.[0]?.$;
+            if (e.$.id !== 'unmatchedSuppression' || !id || !location) {
+                continue;
+            }
+            unmatched.push({ id, file: path.resolve(cwd, location.file), line: Number(location.line) });
+        }
+        const previous = this.unmatchedBySource.get(source) ?? [];
+        this.unmatchedBySource.set(source, unmatched);
+        if (previous.length > 0 || unmatched.length > 0) {
+            this.onDidChangeEmitter.fire();
+        }
+    }
+
+    isUnmatched(entry: SuppressionEntry): boolean {
+        for (const unmatchedList of this.unmatchedBySource.values()) {
+            for (const unmatched of unmatchedList) {
+                if (!entry.ids.includes(unmatched.id) && !entry.ids.includes('*')) {
+                    continue;
+                }
+                if (!appliesToFile(entry, unmatched.file)) {
+                    continue;
+                }
+                // Inline suppressions are reported at the line they apply to, which is not always the next line.
+                // Suppressions without a line are reported without one as well.
+                if (entry.line !== undefined
+                    ? Math.abs(entry.line - unmatched.line) > (entry.kind === 'inline' ? 1 : 0)
+                    : unmatched.line > 0) {
+                    continue;
+                }
+                return true;
+            }
+        }
+        return false;
+    }
+
+    dispose() {
+        this.onDidChangeEmitter.dispose();
+    }
+}
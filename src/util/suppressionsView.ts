@@ -0,0 +1,183 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import {
+    findConfiguredSuppressions,
+    findInlineSuppressions,
+    findWorkspaceInlineSuppressions,
+    isInlineSuppressionFile,
+    SuppressionEntry,
+    SuppressionSourceKind,
+    UnmatchedSuppressionStore,
+} from './suppressions';
+
+const sourceLabels: Record<SuppressionSourceKind, string> = {
+    inline: 'Inline comments',
+    argument: 'Arguments',
+    suppressionsList: 'Suppressions files',
+    suppressionsXml: 'Suppressions files',
+    projectFile: 'Project files',
+    builtIn: 'Built in',
+};
+
+const sourceIcons: Record<SuppressionSourceKind, string> = {
+    inline: 'comment',
+    argument: 'settings-gear',
+    suppressionsList: 'file',
+    suppressionsXml: 'file-code',
+    projectFile: 'project',
+    builtIn: 'lock',
+};
+
+// Where the suppression is defined, for the description and tooltip of its item
+function describeDefinition(entry: SuppressionEntry): string {
+    if (entry.location) {
+        const uri = entry.location.uri;
+        return `${path.basename(uri.fsPath)}:${entry.location.range.start.line + 1}`;
+    }
+    if (entry.setting) {
+        return `${entry.setting.key} (${entry.setting.folder.name})`;
+    }
+    return entry.text;
+}
+
+// What the suppression applies to: a file, a line and a symbol, or everything
+function describeScope(entry: SuppressionEntry): string {
+    const parts: string[] = [];
+    if (entry.file && entry.kind !== 'inline') {
+        parts.push(entry.line !== undefined ? `${entry.file}:${entry.line}` : entry.file);
+    } else if (entry.kind === 'inline') {
+        parts.push(entry.line !== undefined ? `line ${entry.line}` : 'whole file');
+    }
+    if (entry.symbolName) {
+        parts.push(`symbol ${entry.symbolName}`);
+    }
+    return parts.length > 0 ? parts.join(', ') : 'all files';
+}
+
+// A single suppression, opening its definition when selected
+export class SuppressionItem extends vscode.TreeItem {
+    constructor(readonly entry: SuppressionEntry, readonly unmatched: boolean) {
+        super(entry.ids.join(', '), vscode.TreeItemCollapsibleState.None);
+        this.description = `${unmatched ? 'unmatched · ' : ''}${describeDefinition(entry)}`;
+        this.tooltip = new vscode.MarkdownString();
+        this.tooltip.appendText(`${entry.ids.join(', ')} (${describeScope(entry)})\n\n`);
+        if (entry.location) {
+            this.tooltip.appendText(`${vscode.workspace.asRelativePath(entry.location.uri)}:${entry.location.range.start.line + 1}\n\n`);
+        }
+        this.tooltip.appendCodeblock(entry.text);
+        if (unmatched) {
+            this.tooltip.appendText('\n\ncppcheck reported this suppression as unmatched in the last analysis');
+        }
+        this.iconPath = unmatched
+            ? new vscode.ThemeIcon('warning', new vscode.ThemeColor('problemsWarningIcon.foreground'))
+            : new vscode.ThemeIcon(sourceIcons[entry.kind]);
+        this.contextValue = entry.kind === 'builtIn' ? 'cppcheckBuiltInSuppression' : 'cppcheckSuppression';
+        if (entry.location) {
+            this.command = {
+                command: 'vscode.open',
+                title: 'Open Definition',
+                arguments: [entry.location.uri, { selection: entry.location.range }],
+            };
+        } else if (entry.setting) {
+            this.command = {
+                command: 'workbench.action.openSettings',
+                title: 'Open Setting',
+                arguments: [`cppcheck-official.${entry.setting.key}`],
+            };
+        }
+    }
+}
+
+// A source of suppressions with the suppressions found in it
+export class SuppressionGroupItem extends vscode.TreeItem {
+    constructor(label: string, kind: SuppressionSourceKind, readonly suppressions: SuppressionItem[]) {
+        super(label, kind === 'builtIn' ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.Expanded);
+        const unmatchedCount = suppressions.filter((item) => item.unmatched).length;
+        this.description = unmatchedCount > 0 ? `${suppressions.length}, ${unmatchedCount} unmatched` : `${suppressions.length}`;
+        this.iconPath = new vscode.ThemeIcon(sourceIcons[kind]);
+        this.contextValue = 'cppcheckSuppressionGroup';
+    }
+}
+
+type SuppressionsTreeElement = SuppressionGroupItem | SuppressionItem;
+
+/*
+ * Shows the suppressions that apply to the analyses, grouped by where they are defined.
+ * The workspace is searched for inline suppressions once, after that only saved files are searched again.
+ */
+export class SuppressionsTreeProvider implements vscode.TreeDataProvider<SuppressionsTreeElement>, vscode.Disposable {
+    private readonly onDidChangeTreeDataEmitter = new vscode.EventEmitter<void>();
+    readonly onDidChangeTreeData = this.onDidChangeTreeDataEmitter.event;
+    private readonly disposables: vscode.Disposable[] = [];
+    private inlineSuppressions: Promise<Map<string, SuppressionEntry[]>> | undefined;
+
+    constructor(private readonly unmatchedStore: UnmatchedSuppressionStore) {
+        this.disposables.push(
+            unmatchedStore.onDidChange(() => this.onDidChangeTreeDataEmitter.fire()),
+            vscode.workspace.onDidSaveTextDocument((document) => this.onDidSaveDocument(document)),
+            vscode.workspace.onDidChangeConfiguration((event) => {
+                if (event.affectsConfiguration('cppcheck-official.arguments')
+                    || event.affectsConfiguration('cppcheck-official.argumentList')
+                    || event.affectsConfiguration('cppcheck-official.project')) {
+                    this.onDidChangeTreeDataEmitter.fire();
+                }
+            }),
+        );
+    }
+
+    // Searches the workspace for suppressions again
+    refresh() {
+        this.inlineSuppressions = undefined;
+        this.onDidChangeTreeDataEmitter.fire();
+    }
+
+    getTreeItem(element: SuppressionsTreeElement): vscode.TreeItem {
+        return element;
+    }
+
+    async getChildren(element?: SuppressionsTreeElement): Promise<SuppressionsTreeElement[]> {
+        if (element instanceof SuppressionGroupItem) {
+            return element.suppressions;
+        }
+        if (element) {
+            return [];
+        }
+        return this.createGroups();
+    }
+
+    dispose() {
+        this.disposables.forEach((disposable) => disposable.dispose());
+        this.onDidChangeTreeDataEmitter.dispose();
+    }
+
+    private async createGroups(): Promise<SuppressionGroupItem[]> {
+        this.inlineSuppressions ??= findWorkspaceInlineSuppressions();
+        const inlineEntries = [...(await this.inlineSuppressions).values()].flat();
+        const entries = [...inlineEntries, ...await findConfiguredSuppressions()];
+
+        const groups = new Map<string, { kind: SuppressionSourceKind, items: SuppressionItem[] }>();
+        for (const entry of entries) {
+            const label = sourceLabels[entry.kind];
+            const group = groups.get(label) ?? { kind: entry.kind, items: [] };
+            group.items.push(new SuppressionItem(entry, entry.kind !== 'builtIn' && this.unmatchedStore.isUnmatched(entry)));
+            groups.set(label, group);
+        }
+        return [...groups.entries()].map(([label, group]) => new SuppressionGroupItem(label, group.kind, group.items));
+    }
+
+    private async onDidSaveDocument(document: vscode.TextDocument) {
+        if (isInlineSuppressionFile(document) && this.inlineSuppressions) {
+            const inlineSuppressions = await this.inlineSuppressions;
+            const hadSuppressions = inlineSuppressions.delete(document.uri.toString());
+            const entries = findInlineSuppressions(document);
+            if (entries.length > 0) {
+                inlineSuppressions.set(document.uri.toString(), entries);
+            }
+            if (!hadSuppressions && entries.length === 0) {
+                return;
+            }
+        }
+        // Suppressions files and project files are read again every time the tree is built
+        this.onDidChangeTreeDataEmitter.fire();
+    }
+}
@@ -0,0 +1,148 @@
+import * as vscode from 'vscode';
+
+// Locations whose file could not be found are kept in the related information with the URI of an empty path
+const unresolvedLocationPath = vscode.Uri.file('').fsPath;
+
+// Findings with several locations have a trace through the code, kept in the related information in the order of the steps
+export function getTraceSteps(diagnostic: vscode.Diagnostic): vscode.DiagnosticRelatedInformation[] {
+    const steps = (diagnostic.relatedInformation ?? []).filter((step) => step.location.uri.fsPath !== unresolvedLocationPath);
+    return steps.length > 1 ? steps : [];
+}
+
+function getCheckerId(diagnostic: vscode.Diagnostic): string {
+    const code = diagnostic.code;
+    return typeof(code) === "object" && code !== null ? String(code.value) : String(code ?? '');
+}
+
+// Shows a code lens above every finding that has a trace
+export class TraceCodeLensProvider implements vscode.CodeLensProvider, vscode.Disposable {
+    private readonly onDidChangeCodeLensesEmitter = new vscode.EventEmitter<void>();
+    readonly onDidChangeCodeLenses = this.onDidChangeCodeLensesEmitter.event;
+    private readonly diagnosticsListener: vscode.Disposable;
+
+    constructor(private readonly diagnosticCollection: vscode.DiagnosticCollection) {
+        this.diagnosticsListener = vscode.languages.onDidChangeDiagnostics(() => this.onDidChangeCodeLensesEmitter.fire());
+    }
+
+    provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+        const lenses: vscode.CodeLens[] = [];
+        for (const diagnostic of this.diagnosticCollection.get(document.uri) ?? []) {
+            const steps = getTraceSteps(diagnostic);
+            if (steps.length === 0) {
+                continue;
+            }
+            lenses.push(new vscode.CodeLens(diagnostic.range, {
+                title: `Show Cppcheck trace of ${getCheckerId(diagnostic)} (${steps.length} steps)`,
+                command: 'cppcheck-official.showTrace',
+                arguments: [document.uri, diagnostic],
+            }));
+        }
+        return lenses;
+    }
+
+    dispose() {
+        this.diagnosticsListener.dispose();
+        this.onDidChangeCodeLensesEmitter.dispose();
+    }
+}
+
+/*
+ * Keeps the trace that was shown last, highlights its steps in the editors showing them and steps through it in order.
+ * The highlights are removed when a file of the trace is edited, as the steps no longer match the code.
+ */
+export class TraceNavigator implements vscode.Disposable {
+    private readonly stepDecorationType = vscode.window.createTextEditorDecorationType({
+        isWholeLine: true,
+        backgroundColor: new vscode.ThemeColor('editor.rangeHighlightBackground'),
+        after: { color: new vscode.ThemeColor('editorCodeLens.foreground'), margin: '0 0 0 2em' },
+    });
+    private readonly currentStepDecorationType = vscode.window.createTextEditorDecorationType({
+        isWholeLine: true,
+        backgroundColor: new vscode.ThemeColor('editor.wordHighlightStrongBackground'),
+        after: { color: new vscode.ThemeColor('editorCodeLens.foreground'), margin: '0 0 0 2em', fontWeight: 'bold' },
+    });
+    private readonly disposables: vscode.Disposable[] = [];
+    private steps: vscode.DiagnosticRelatedInformation[] = [];
+    private currentStep = 0;
+
+    constructor() {
+        this.disposables.push(
+            this.stepDecorationType,
+            this.currentStepDecorationType,
+            vscode.window.onDidChangeVisibleTextEditors(() => this.decorate()),
+            vscode.workspace.onDidChangeTextDocument((event) => {
+                if (event.contentChanges.length > 0 && this.steps.some((step) => step.location.uri.toString() === event.document.uri.toString())) {
+                    this.clear();
+                }
+            }),
+        );
+    }
+
+    // Opens the peek view with all steps of the trace of the finding, and highlights them in the editors
+    async show(uri: vscode.Uri, diagnostic: vscode.Diagnostic) {
+        const steps = getTraceSteps(diagnostic);
+        if (steps.length === 0) {
+            vscode.window.showInformationMessage('Cppcheck: This finding has no trace.');
+            return;
+        }
+        this.steps = steps;
+        this.currentStep = 0;
+        await vscode.commands.executeCommand('setContext', 'cppcheck-official.traceShown', true);
+        const editor = await vscode.window.showTextDocument(uri, { selection: diagnostic.range });
+        this.decorate();
+        await vscode.commands.executeCommand(
+            'editor.action.peekLocations',
+            editor.document.uri,
+            diagnostic.range.start,
+            steps.map((step) => step.location),
+            'peek'
+        );
+    }
+
+    // Moves to the next or previous step of the trace, across files
+    async step(offset: number) {
+        if (this.steps.length === 0) {
+            vscode.window.showInformationMessage('Cppcheck: No trace is shown, use "Show Cppcheck Trace" on a finding first.');
+            return;
+        }
+        this.currentStep = Math.min(Math.max(this.currentStep + offset, 0), this.steps.length - 1);
+        const step = this.steps[this.currentStep];
+        await vscode.window.showTextDocument(step.location.uri, { selection: step.location.range });
+        this.decorate();
+        vscode.window.setStatusBarMessage(
+            `Cppcheck trace step ${this.currentStep + 1} of ${this.steps.length}${step.message ? `: ${step.message}` : ''}`,
+            5000
+        );
+    }
+
+    clear() {
+        this.steps = [];
+        this.currentStep = 0;
+        this.decorate();
+        vscode.commands.executeCommand('setContext', 'cppcheck-official.traceShown', false);
+    }
+
+    dispose() {
+        this.disposables.forEach((disposable) => disposable.dispose());
+    }
+
+    private decorate() {
+        for (const editor of vscode.window.visibleTextEditors) {
+            const stepOptions: vscode.DecorationOptions[] = [];
+            const currentStepOptions: vscode.DecorationOptions[] = [];
+            this.steps.forEach((step, index) => {
+                if (step.location.uri.toString() !== editor.document.uri.toString()) {
+                    return;
+                }
+                const options: vscode.DecorationOptions = {
+                    range: step.location.range,
+                    hoverMessage: step.message || undefined,
+                    renderOptions: { after: { contentText: step.message ? `step ${index + 1}: ${step.message}` : `step ${index + 1}` } },
+                };
+                (index === this.currentStep ? currentStepOptions : stepOptions).push(options);
+            });
+            editor.setDecorations(this.stepDecorationType, stepOptions);
+            editor.setDecorations(this.currentStepDecorationType, currentStepOptions);
+        }
+    }
+}
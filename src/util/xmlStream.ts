@@ -0,0 +1,95 @@
+import * as sax from 'sax';
+
+// Parsed <error> elements keep the nesting of the XML: attributes under $ and child elements as arrays
+export interface CppcheckXmlLocation {
+    $: Record<string, string>;
+}
+
+export interface CppcheckXmlError {
+    $: Record<string, string>;
+    location?: CppcheckXmlLocation[];
+    symbol?: string[];
+}
+
+/*
+ * Incremental parser for the cppcheck XML output format (<results><errors><error>...</error></errors></results>).
+ * Each <error> element is handed to the callback as soon as its closing tag has been read, so that results can be
+ * published while cppcheck is still running and the complete output never has to be kept in memory.
+ */
+export class CppcheckXmlStreamParser {
+    private readonly parser: sax.SAXParser;
+    private currentError: CppcheckXmlError | undefined;
+    private currentSymbol: string | undefined;
+    private parseError: Error | undefined;
+
+    constructor(
+        private readonly onError: (error: CppcheckXmlError) => void,
+        private readonly onParseError: (err: Error) => void
+    ) {
+        this.parser = sax.parser(true);
+
+        this.parser.onopentag = (node) => {
+            const attributes = node.attributes as Record<string, string>;
+            if (node.name === 'error') {
+                this.currentError = { $: { ...attributes } };
+            } else if (node.name === 'location' && this.currentError) {
+                this.currentError.location ??= [];
+                this.currentError.location.push({ $: { ...attributes } });
+            } else if (node.name === 'symbol' && this.currentError) {
+                this.currentSymbol = '';
+            }
+        };
+
+        this.parser.ontext = (text) => {
+            if (this.currentSymbol !== undefined) {
+                this.currentSymbol += text;
+            }
+        };
+
+        this.parser.onclosetag = (name) => {
+            // The parser carries on after an error in the rest of the chunk, whose elements cannot be trusted
+            if (this.parseError) {
+                return;
+            }
+            if (name === 'symbol' && this.currentError && this.currentSymbol !== undefined) {
+                this.currentError.symbol ??= [];
+                this.currentError.symbol.push(this.currentSymbol);
+                this.currentSymbol = undefined;
+            } else if (name === 'error' && this.currentError) {
+                const error = this.currentError;
+                this.currentError = undefined;
+                this.onError(error);
+            }
+        };
+
+        this.parser.onerror = (err) => {
+            // Only the first parse error is reported, anything after it is ignored
+            if (!this.parseError) {
+                this.parseError = err;
+                this.onParseError(err);
+            }
+        };
+    }
+
+    write(chunk: string) {
+        if (this.parseError) {
+            return;
+        }
+        try {
+            this.parser.write(chunk);
+        } catch {
+            // The error has already been passed on by onerror
+        }
+    }
+
+    end() {
+        if (this.parseError) {
+            return;
+        }
+        try {
+            this.parser.close();
+        } catch {
+            // The error has already been passed on by onerror
+        }
+    }
+}